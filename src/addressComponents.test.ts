@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  findComponent,
+  getComponent,
+  isAddressType,
+  toStructuredAddress,
+} from "./addressComponents.js";
+import type { AddressComponent, AddressType } from "./types.js";
+
+const component = (
+  longName: string,
+  shortName: string,
+  ...types: AddressType[]
+): AddressComponent => ({ longName, shortName, types });
+
+const usResult = {
+  addressComponents: [
+    component("1600", "1600", "street_number"),
+    component("Amphitheatre Parkway", "Amphitheatre Pkwy", "route"),
+    component("Mountain View", "Mountain View", "locality", "political"),
+    component(
+      "Santa Clara County",
+      "Santa Clara County",
+      "administrative_area_level_2",
+      "political"
+    ),
+    component("California", "CA", "administrative_area_level_1", "political"),
+    component("United States", "US", "country", "political"),
+    component("94043", "94043", "postal_code"),
+  ],
+};
+
+const ukResult = {
+  addressComponents: [
+    component("10", "10", "street_number"),
+    component("Downing Street", "Downing St", "route"),
+    component("London", "London", "postal_town"),
+    component("England", "England", "administrative_area_level_1", "political"),
+    component("United Kingdom", "GB", "country", "political"),
+    component("SW1A 2AA", "SW1A 2AA", "postal_code"),
+  ],
+};
+
+describe("isAddressType", () => {
+  it("should accept documented address types", () => {
+    assert.strictEqual(isAddressType("postal_town"), true);
+    assert.strictEqual(isAddressType("sublocality_level_5"), true);
+    assert.strictEqual(isAddressType("plus_code"), true);
+  });
+
+  it("should reject unknown strings", () => {
+    assert.strictEqual(isAddressType("spaceport"), false);
+    assert.strictEqual(isAddressType("toString"), false);
+  });
+});
+
+describe("findComponent", () => {
+  it("should find the first component of a type", () => {
+    assert.deepStrictEqual(
+      findComponent(usResult, "country"),
+      component("United States", "US", "country", "political")
+    );
+  });
+
+  it("should return undefined for missing types", () => {
+    assert.strictEqual(findComponent(usResult, "subpremise"), undefined);
+  });
+});
+
+describe("getComponent", () => {
+  it("should return the long name by default", () => {
+    assert.strictEqual(getComponent(usResult, "route"), "Amphitheatre Parkway");
+  });
+
+  it("should return the short name when requested", () => {
+    assert.strictEqual(getComponent(usResult, "country", "short"), "US");
+  });
+
+  it("should return undefined for missing types", () => {
+    assert.strictEqual(getComponent(usResult, "postal_town"), undefined);
+  });
+});
+
+describe("toStructuredAddress", () => {
+  it("should extract common address fields", () => {
+    assert.deepStrictEqual(toStructuredAddress(usResult), {
+      streetNumber: "1600",
+      route: "Amphitheatre Parkway",
+      subpremise: undefined,
+      premise: undefined,
+      neighborhood: undefined,
+      sublocality: undefined,
+      locality: "Mountain View",
+      adminArea1: "California",
+      adminArea1Code: "CA",
+      adminArea2: "Santa Clara County",
+      postalCode: "94043",
+      postalCodeSuffix: undefined,
+      country: "United States",
+      countryCode: "US",
+    });
+  });
+
+  it("should fall back to postal_town for locality", () => {
+    const address = toStructuredAddress(ukResult);
+    assert.strictEqual(address.locality, "London");
+    assert.strictEqual(address.countryCode, "GB");
+  });
+
+  it("should prefer locality over postal_town", () => {
+    const address = toStructuredAddress({
+      addressComponents: [
+        component("Richmond", "Richmond", "postal_town"),
+        component("Kew", "Kew", "locality", "political"),
+      ],
+    });
+    assert.strictEqual(address.locality, "Kew");
+  });
+});
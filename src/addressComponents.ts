@@ -0,0 +1,181 @@
+import type { AddressComponent, AddressType, GeocodeResult } from "./types.js";
+
+/**
+ * Which name of an address component to read
+ */
+export type ComponentNameForm = "long" | "short";
+
+/**
+ * Address fields extracted from a geocoding result
+ */
+export type StructuredAddress = {
+  streetNumber?: string;
+  route?: string;
+  /** Unit, apartment or suite */
+  subpremise?: string;
+  premise?: string;
+  neighborhood?: string;
+  sublocality?: string;
+  /** City or town, falling back to `postal_town` (used for UK addresses) */
+  locality?: string;
+  /** State or province, e.g. "California" */
+  adminArea1?: string;
+  /** Short state or province code, e.g. "CA" */
+  adminArea1Code?: string;
+  /** County or equivalent */
+  adminArea2?: string;
+  postalCode?: string;
+  postalCodeSuffix?: string;
+  /** Country name, e.g. "United States" */
+  country?: string;
+  /** ISO 3166-1 alpha-2 country code, e.g. "US" */
+  countryCode?: string;
+};
+
+/**
+ * Every known address type. Keyed by `AddressType` so the compiler reports
+ * types missing here.
+ */
+const ADDRESS_TYPES: Record<AddressType, true> = {
+  street_address: true,
+  street_number: true,
+  route: true,
+  intersection: true,
+  political: true,
+  continent: true,
+  country: true,
+  administrative_area_level_1: true,
+  administrative_area_level_2: true,
+  administrative_area_level_3: true,
+  administrative_area_level_4: true,
+  administrative_area_level_5: true,
+  administrative_area_level_6: true,
+  administrative_area_level_7: true,
+  archipelago: true,
+  colloquial_area: true,
+  locality: true,
+  sublocality: true,
+  sublocality_level_1: true,
+  sublocality_level_2: true,
+  sublocality_level_3: true,
+  sublocality_level_4: true,
+  sublocality_level_5: true,
+  neighborhood: true,
+  premise: true,
+  subpremise: true,
+  plus_code: true,
+  postal_code: true,
+  postal_code_prefix: true,
+  postal_code_suffix: true,
+  postal_town: true,
+  natural_feature: true,
+  airport: true,
+  park: true,
+  point_of_interest: true,
+  establishment: true,
+  landmark: true,
+  floor: true,
+  room: true,
+  parking: true,
+  post_box: true,
+  bus_station: true,
+  train_station: true,
+  transit_station: true,
+};
+
+/**
+ * Component types tried in order for the `locality` field
+ */
+const LOCALITY_TYPES: AddressType[] = ["locality", "postal_town"];
+
+/**
+ * Check whether a string is a known address type
+ *
+ * @example
+ * ```ts
+ * const types = rawTypes.filter(isAddressType); // AddressType[]
+ * ```
+ */
+export function isAddressType(value: string): value is AddressType {
+  return Object.hasOwn(ADDRESS_TYPES, value);
+}
+
+/**
+ * Find the first address component of a given type
+ *
+ * @example
+ * ```ts
+ * const [result] = await geocoder.geocode({ address: 'Mountain View, CA' });
+ * findComponent(result, 'country'); // { longName: 'United States', shortName: 'US', types: [...] }
+ * ```
+ */
+export function findComponent(
+  result: Pick<GeocodeResult, "addressComponents">,
+  type: AddressType
+): AddressComponent | undefined {
+  return result.addressComponents.find((component) =>
+    component.types.includes(type)
+  );
+}
+
+/**
+ * Get the long or short name of the first address component of a given type
+ * @param result - Geocoding result
+ * @param type - Component type, e.g. "postal_code"
+ * @param form - Which name to return (default: "long")
+ * @returns The name, or undefined if the result has no such component
+ *
+ * @example
+ * ```ts
+ * getComponent(result, 'postal_code'); // "94043"
+ * getComponent(result, 'country', 'short'); // "US"
+ * ```
+ */
+export function getComponent(
+  result: Pick<GeocodeResult, "addressComponents">,
+  type: AddressType,
+  form: ComponentNameForm = "long"
+): string | undefined {
+  const component = findComponent(result, type);
+  return form === "short" ? component?.shortName : component?.longName;
+}
+
+/**
+ * Extract the common address fields from a geocoding result
+ *
+ * `locality` falls back to `postal_town`, which Google returns instead of
+ * `locality` for many UK addresses. Fields missing from the result are
+ * left undefined.
+ *
+ * @example
+ * ```ts
+ * const address = toStructuredAddress(result);
+ * // { streetNumber: '1600', route: 'Amphitheatre Parkway', locality: 'Mountain View',
+ * //   adminArea1: 'California', adminArea1Code: 'CA', postalCode: '94043', countryCode: 'US', ... }
+ * ```
+ */
+export function toStructuredAddress(
+  result: Pick<GeocodeResult, "addressComponents">
+): StructuredAddress {
+  const get = (type: AddressType, form?: ComponentNameForm) =>
+    getComponent(result, type, form);
+
+  return {
+    streetNumber: get("street_number"),
+    route: get("route"),
+    subpremise: get("subpremise"),
+    premise: get("premise"),
+    neighborhood: get("neighborhood"),
+    sublocality: get("sublocality"),
+    locality: LOCALITY_TYPES.map((type) => get(type)).find(
+      (name) => name !== undefined
+    ),
+    adminArea1: get("administrative_area_level_1"),
+    adminArea1Code: get("administrative_area_level_1", "short"),
+    adminArea2: get("administrative_area_level_2"),
+    postalCode: get("postal_code"),
+    postalCodeSuffix: get("postal_code_suffix"),
+    country: get("country"),
+    countryCode: get("country", "short"),
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, it, beforeEach, mock } from "node:test";
+import assert from "node:assert";
+import {
+  caseFold,
+  collapseWhitespace,
+  createAddressNormalizer,
+  defaultAddressNormalizer,
+  expandAbbreviations,
+} from "./addressNormalizer.js";
+import { Geocoder } from "./geocoder.js";
+import { createRawGeocodeResult } from "./testing.js";
+
+describe("defaultAddressNormalizer", () => {
+  it("should collapse common spelling differences", () => {
+    for (const address of [
+      "123 Main St.",
+      "123  main street",
+      " 123 MAIN   ST ",
+      "１２３ Main St",
+    ]) {
+      assert.strictEqual(
+        defaultAddressNormalizer(address, {}),
+        "123 main street"
+      );
+    }
+  });
+
+  it("should strip punctuation and expand directions and units", () => {
+    assert.strictEqual(
+      defaultAddressNormalizer("500 N. O'Farrell Blvd., Apt #4", {}),
+      "500 north ofarrell boulevard apartment 4"
+    );
+  });
+
+  it("should use the abbreviations of the request language", () => {
+    assert.strictEqual(
+      defaultAddressNormalizer("Unter den Linden Nr. 5", { language: "de" }),
+      "unter den linden nummer 5"
+    );
+    assert.strictEqual(
+      defaultAddressNormalizer("Heinrich-Heine-Straße 1", {
+        language: "de-CH",
+      }),
+      "heinrich heine strasse 1"
+    );
+    assert.strictEqual(
+      defaultAddressNormalizer("12 av. des Champs-Élysées", { language: "fr" }),
+      "12 avenue des champs élysées"
+    );
+  });
+});
+
+describe("createAddressNormalizer", () => {
+  it("should run the steps in order with the request context", () => {
+    const normalize = createAddressNormalizer(
+      caseFold,
+      collapseWhitespace,
+      expandAbbreviations({ en: { rte: "route" } })
+    );
+
+    assert.strictEqual(normalize("  Rte  66 ", { language: "en" }), "route 66");
+    assert.strictEqual(caseFold("İSTANBUL", { language: "tr" }), "istanbul");
+  });
+});
+
+describe("Geocoder with normalizeAddress", () => {
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+  const requestedAddresses = () =>
+    mockFetch.mock.calls.map((call) =>
+      new URL(call.arguments[0] as string).searchParams.get("address")
+    );
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>(
+      async () =>
+        new Response(
+          JSON.stringify({ status: "OK", results: [createRawGeocodeResult()] })
+        )
+    );
+  });
+
+  it("should share one cache entry between spellings and send the original address", async () => {
+    const geocoder = new Geocoder({
+      apiKey: "test-key",
+      fetch: mockFetch,
+      rateLimiter: false,
+      normalizeAddress: true,
+    });
+
+    await geocoder.geocode({ address: "123 Main St." });
+    await geocoder.geocode({ address: "123  main street" });
+
+    assert.deepStrictEqual(requestedAddresses(), ["123 Main St."]);
+    assert.strictEqual(geocoder.getCacheStats().hits, 1);
+
+    geocoder.dispose();
+  });
+
+  it("should keep exact cache keys by default", async () => {
+    const geocoder = new Geocoder({
+      apiKey: "test-key",
+      fetch: mockFetch,
+      rateLimiter: false,
+    });
+
+    await geocoder.geocode({ address: "123 Main St." });
+    await geocoder.geocode({ address: "123  main street" });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+    geocoder.dispose();
+  });
+
+  it("should accept a custom normalizer", async () => {
+    const geocoder = new Geocoder({
+      apiKey: "test-key",
+      fetch: mockFetch,
+      rateLimiter: false,
+      normalizeAddress: createAddressNormalizer(
+        defaultAddressNormalizer,
+        (address) => address.replace(/ suite \d+$/, "")
+      ),
+    });
+
+    await geocoder.geocode({ address: "1 Market St, Suite 100" });
+    await geocoder.geocode({ address: "1 Market Street Suite 200" });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+    geocoder.dispose();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Request options an address is normalized for
+ */
+export type AddressNormalizationContext = {
+  /** Language of the request, e.g. "de" */
+  language?: string;
+  /** Region bias of the request, e.g. "us" */
+  region?: string;
+};
+
+/**
+ * A step of the address normalization pipeline. Receives the output of the
+ * previous step.
+ */
+export type AddressNormalizer = (
+  address: string,
+  context: AddressNormalizationContext
+) => string;
+
+/**
+ * Abbreviations and their expansions by language. Keys are lowercase words
+ * without punctuation.
+ */
+export type AbbreviationTables = Record<string, Record<string, string>>;
+
+/**
+ * Common street type, direction and unit abbreviations
+ */
+export const DEFAULT_ABBREVIATIONS: AbbreviationTables = {
+  en: {
+    st: "street",
+    str: "street",
+    ave: "avenue",
+    av: "avenue",
+    rd: "road",
+    blvd: "boulevard",
+    dr: "drive",
+    ln: "lane",
+    ct: "court",
+    pl: "place",
+    sq: "square",
+    ter: "terrace",
+    hwy: "highway",
+    pkwy: "parkway",
+    cir: "circle",
+    n: "north",
+    s: "south",
+    e: "east",
+    w: "west",
+    ne: "northeast",
+    nw: "northwest",
+    se: "southeast",
+    sw: "southwest",
+    apt: "apartment",
+    ste: "suite",
+    fl: "floor",
+  },
+  de: {
+    str: "strasse",
+    straße: "strasse",
+    pl: "platz",
+    nr: "nummer",
+  },
+  fr: {
+    av: "avenue",
+    ave: "avenue",
+    bd: "boulevard",
+    bld: "boulevard",
+    pl: "place",
+    rte: "route",
+    st: "saint",
+    ste: "sainte",
+  },
+  es: {
+    c: "calle",
+    av: "avenida",
+    avda: "avenida",
+    pza: "plaza",
+    cra: "carrera",
+  },
+};
+
+/**
+ * Apply Unicode NFKC normalization, e.g. full-width digits to ASCII digits
+ */
+export const normalizeUnicode: AddressNormalizer = (address) =>
+  address.normalize("NFKC");
+
+/**
+ * Lowercase the address in the request language
+ */
+export const caseFold: AddressNormalizer = (address, { language }) => {
+  try {
+    return address.toLocaleLowerCase(language);
+  } catch {
+    // Unknown language tag
+    return address.toLowerCase();
+  }
+};
+
+/**
+ * Remove apostrophes and replace other punctuation and symbols with spaces
+ */
+export const stripPunctuation: AddressNormalizer = (address) =>
+  address.replaceAll(/['’]/g, "").replaceAll(/[\p{P}\p{S}]/gu, " ");
+
+/**
+ * Collapse runs of whitespace into single spaces and trim the ends
+ */
+export const collapseWhitespace: AddressNormalizer = (address) =>
+  address.replaceAll(/\s+/g, " ").trim();
+
+/**
+ * Create a step that expands abbreviated words, using the table of the
+ * request language (default: English). Run it after `caseFold` and
+ * `stripPunctuation` so "St." and "st" both match.
+ *
+ * @param tables - Abbreviations by language (default: `DEFAULT_ABBREVIATIONS`)
+ */
+export function expandAbbreviations(
+  tables: AbbreviationTables = DEFAULT_ABBREVIATIONS
+): AddressNormalizer {
+  return (address, { language }) => {
+    // "de-CH" uses the "de" table
+    const base = language?.split("-")[0].toLowerCase() ?? "en";
+    const table = Object.hasOwn(tables, base) ? tables[base] : tables.en;
+    if (!table) {
+      return address;
+    }
+
+    return address
+      .split(" ")
+      .map((word) => (Object.hasOwn(table, word) ? table[word] : word))
+      .join(" ");
+  };
+}
+
+/**
+ * Chain normalization steps into one normalizer
+ *
+ * @example
+ * ```ts
+ * const normalize = createAddressNormalizer(
+ *   caseFold,
+ *   collapseWhitespace,
+ *   (address) => address.replace(/\bsuite\b.*$/, '') // Ignore unit numbers
+ * );
+ * ```
+ */
+export function createAddressNormalizer(
+  ...steps: AddressNormalizer[]
+): AddressNormalizer {
+  return (address, context) =>
+    steps.reduce((result, step) => step(result, context), address);
+}
+
+/**
+ * The default pipeline: Unicode NFKC, case folding, punctuation stripping,
+ * whitespace collapsing and abbreviation expansion.
+ * "123 Main St." and "123  main street" both become "123 main street".
+ */
+export const defaultAddressNormalizer: AddressNormalizer =
+  createAddressNormalizer(
+    normalizeUnicode,
+    caseFold,
+    stripPunctuation,
+    collapseWhitespace,
+    expandAbbreviations()
+  );
+
+/**
+ * Resolve the `normalizeAddress` option of `Geocoder`
+ */
+export function resolveAddressNormalizer(
+  option: boolean | AddressNormalizer | undefined
+): AddressNormalizer | undefined {
+  if (typeof option === "function") {
+    return option;
+  }
+
+  return option ? defaultAddressNormalizer : undefined;
+}
@@ -0,0 +1,299 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { AddressValidator } from "./addressValidator.js";
+import {
+  ApiKeyError,
+  InvalidRequestError,
+  QuotaExceededError,
+  ResponseParseError,
+} from "./errors.js";
+import type { RawAddressValidationResponse } from "./types.js";
+
+const mockValidationResponse: RawAddressValidationResponse = {
+  result: {
+    verdict: {
+      inputGranularity: "PREMISE",
+      validationGranularity: "PREMISE",
+      geocodeGranularity: "PREMISE",
+      addressComplete: true,
+      hasInferredComponents: true,
+    },
+    address: {
+      formattedAddress:
+        "1600 Amphitheatre Parkway, Mountain View, CA 94043-1351, USA",
+      postalAddress: {
+        regionCode: "US",
+        languageCode: "en",
+        postalCode: "94043-1351",
+        administrativeArea: "CA",
+        locality: "Mountain View",
+        addressLines: ["1600 Amphitheatre Pkwy"],
+      },
+      addressComponents: [
+        {
+          componentName: { text: "1600" },
+          componentType: "street_number",
+          confirmationLevel: "CONFIRMED",
+        },
+        {
+          componentName: { text: "94043", languageCode: "en" },
+          componentType: "postal_code",
+          confirmationLevel: "CONFIRMED",
+        },
+        {
+          componentName: { text: "1351" },
+          componentType: "postal_code_suffix",
+          confirmationLevel: "CONFIRMED",
+          inferred: true,
+        },
+      ],
+    },
+    geocode: {
+      location: { latitude: 37.422_476_4, longitude: -122.084_249_9 },
+      plusCode: { globalCode: "849VCWC8+R9" },
+      bounds: {
+        low: { latitude: 37.4211, longitude: -122.0856 },
+        high: { latitude: 37.4238, longitude: -122.0829 },
+      },
+      placeId: "ChIJ2eUgeAK6j4ARbn5u_wAGqWA",
+      placeTypes: ["premise"],
+    },
+    metadata: { business: true },
+    uspsData: {
+      standardizedAddress: {
+        firstAddressLine: "1600 AMPHITHEATRE PKWY",
+        city: "MOUNTAIN VIEW",
+        state: "CA",
+        zipCode: "94043",
+        zipCodeExtension: "1351",
+      },
+      dpvConfirmation: "Y",
+      cassProcessed: true,
+    },
+  },
+  responseId: "d3f1e5a2-0000-4000-8000-000000000000",
+};
+
+describe("AddressValidator", () => {
+  let validator: AddressValidator;
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>();
+    validator = new AddressValidator({
+      apiKey: "test-api-key",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+  });
+
+  afterEach(() => {
+    validator.dispose();
+  });
+
+  it("should require an API key or auth strategy", () => {
+    assert.throws(() => new AddressValidator({}), InvalidRequestError);
+  });
+
+  it("should POST the address as JSON", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockValidationResponse))
+    );
+
+    await validator.validate({
+      addressLines: ["1600 Amphitheatre Pkwy", "Mountain View, CA"],
+      regionCode: "US",
+      enableUspsCass: true,
+    });
+
+    const [url, init] = mockFetch.mock.calls[0].arguments;
+    assert.strictEqual(
+      url,
+      "https://addressvalidation.googleapis.com/v1:validateAddress?key=test-api-key"
+    );
+    assert.strictEqual(init?.method, "POST");
+    assert.deepStrictEqual(JSON.parse(init?.body as string), {
+      address: {
+        addressLines: ["1600 Amphitheatre Pkwy", "Mountain View, CA"],
+        regionCode: "US",
+      },
+      enableUspsCass: true,
+    });
+  });
+
+  it("should map the response to a camelCased verdict", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockValidationResponse))
+    );
+
+    const result = await validator.validate({
+      addressLines: ["1600 Amphitheatre Pkwy, Mountain View, CA"],
+    });
+
+    assert.deepStrictEqual(result.verdict, {
+      inputGranularity: "PREMISE",
+      validationGranularity: "PREMISE",
+      geocodeGranularity: "PREMISE",
+      addressComplete: true,
+      hasUnconfirmedComponents: false,
+      hasInferredComponents: true,
+      hasReplacedComponents: false,
+    });
+    assert.deepStrictEqual(result.address.components[2], {
+      text: "1351",
+      languageCode: undefined,
+      type: "postal_code_suffix",
+      confirmationLevel: "CONFIRMED",
+      inferred: true,
+      spellCorrected: false,
+      replaced: false,
+      unexpected: false,
+    });
+    assert.deepStrictEqual(result.address.unconfirmedComponentTypes, []);
+    assert.deepStrictEqual(result.geocode?.location, {
+      lat: 37.422_476_4,
+      lng: -122.084_249_9,
+    });
+    assert.deepStrictEqual(result.geocode?.bounds?.northeast, {
+      lat: 37.4238,
+      lng: -122.0829,
+    });
+    assert.strictEqual(result.uspsData?.dpvConfirmation, "Y");
+    assert.strictEqual(result.responseId, mockValidationResponse.responseId);
+  });
+
+  it("should reject empty addresses", async () => {
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["  "] }),
+      InvalidRequestError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 0);
+  });
+
+  it("should map Google API errors", async () => {
+    const googleError = (code: number, status: string) =>
+      new Response(
+        JSON.stringify({
+          error: { code, message: `${status} message`, status },
+        }),
+        { status: code }
+      );
+
+    mockFetch.mock.mockImplementationOnce(
+      async () => googleError(400, "INVALID_ARGUMENT"),
+      0
+    );
+    mockFetch.mock.mockImplementationOnce(
+      async () => googleError(403, "PERMISSION_DENIED"),
+      1
+    );
+    mockFetch.mock.mockImplementationOnce(
+      async () => googleError(429, "RESOURCE_EXHAUSTED"),
+      2
+    );
+
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["a"] }),
+      (error: unknown) =>
+        error instanceof InvalidRequestError &&
+        error.errorMessage === "INVALID_ARGUMENT message" &&
+        error.httpStatus === 400
+    );
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["a"] }),
+      (error: unknown) =>
+        error instanceof ApiKeyError &&
+        error.url?.includes("key=REDACTED") === true
+    );
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["a"] }),
+      QuotaExceededError
+    );
+  });
+
+  it("should throw ResponseParseError for malformed responses", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify({ result: {} }))
+    );
+
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["a"] }),
+      (error: unknown) =>
+        error instanceof ResponseParseError && error.path === "result.verdict"
+    );
+  });
+
+  it("should throw ResponseParseError for incomplete geocode bounds", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            ...mockValidationResponse,
+            result: {
+              ...mockValidationResponse.result,
+              geocode: {
+                ...mockValidationResponse.result.geocode,
+                bounds: { low: { latitude: 37.4211, longitude: -122.0856 } },
+              },
+            },
+          })
+        )
+    );
+
+    await assert.rejects(
+      async () => validator.validate({ addressLines: ["a"] }),
+      (error: unknown) =>
+        error instanceof ResponseParseError &&
+        error.path === "result.geocode.bounds.high"
+    );
+  });
+
+  it("should fail over to the next API key on HTTP 429", async () => {
+    const pooled = new AddressValidator({
+      apiKey: ["key-a", "key-b"],
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(async (input) =>
+      new URL(input as string).searchParams.get("key") === "key-a"
+        ? new Response("{}", { status: 429 })
+        : new Response(JSON.stringify(mockValidationResponse))
+    );
+
+    const result = await pooled.validate({ addressLines: ["a"] });
+
+    assert.strictEqual(result.responseId, mockValidationResponse.responseId);
+    assert.strictEqual(mockFetch.mock.callCount(), 2);
+    assert.strictEqual(
+      new URL(mockFetch.mock.calls[1].arguments[0] as string).searchParams.get(
+        "key"
+      ),
+      "key-b"
+    );
+
+    pooled.dispose();
+  });
+
+  it("should cache results", async () => {
+    const cachedValidator = new AddressValidator({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: { ttl: 10_000 },
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockValidationResponse))
+    );
+
+    await cachedValidator.validate({ addressLines: ["a"], regionCode: "US" });
+    await cachedValidator.validate({ addressLines: ["a"], regionCode: "US" });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+    cachedValidator.dispose();
+  });
+});
@@ -0,0 +1,235 @@
+import type {
+  AddressValidationOptions,
+  AddressValidationResult,
+  LatLng,
+  RawAddressValidationResponse,
+  RawGoogleApiError,
+  RawLatLngLiteral,
+  RawValidatedAddressComponent,
+  ValidatedAddressComponent,
+} from "./types.js";
+import {
+  ApiKeyError,
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+  type GeocodingError,
+  type GeocodingErrorDetails,
+} from "./errors.js";
+import { createCacheKey } from "./cache.js";
+import { parseRetryAfter } from "./retry.js";
+import { parseAddressValidationResponse } from "./validation.js";
+import {
+  WebServiceClient,
+  type WebServiceClientConfig,
+} from "./webServiceClient.js";
+
+const DEFAULT_BASE_URL =
+  "https://addressvalidation.googleapis.com/v1:validateAddress";
+
+/**
+ * Configuration options for the AddressValidator client
+ */
+export type AddressValidatorConfig = Omit<
+  WebServiceClientConfig<AddressValidationResult>,
+  "channel" | "language"
+>;
+
+/**
+ * Client for the Google Address Validation API
+ *
+ * Shares its configuration, errors, cache and rate limiter with `Geocoder`.
+ *
+ * @example
+ * ```ts
+ * const validator = new AddressValidator({ apiKey: 'YOUR_API_KEY' });
+ *
+ * const result = await validator.validate({
+ *   addressLines: ['1600 Amphitheatre Pkwy', 'Mountain View, CA 94043'],
+ *   regionCode: 'US',
+ *   enableUspsCass: true,
+ * });
+ *
+ * if (result.verdict.addressComplete && result.verdict.validationGranularity === 'PREMISE') {
+ *   // Deliverable
+ * }
+ * ```
+ */
+export class AddressValidator extends WebServiceClient<AddressValidationResult> {
+  constructor(config: AddressValidatorConfig) {
+    super(config, DEFAULT_BASE_URL);
+  }
+
+  /**
+   * Validate an address
+   *
+   * @param options - The address to validate
+   * @returns The validation verdict, corrected address, geocode and USPS data
+   * @throws {InvalidRequestError} When the address is missing or rejected by the API
+   * @throws {ApiKeyError} When the API key is invalid or the API is not enabled
+   * @throws {QuotaExceededError} When the quota is exceeded
+   * @throws {NetworkError} On network failures
+   * @throws {ResponseParseError} When the response is malformed
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async validate(
+    options: AddressValidationOptions
+  ): Promise<AddressValidationResult> {
+    const addressLines = (options.addressLines ?? [])
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    if (addressLines.length === 0) {
+      throw new InvalidRequestError("At least one address line is required");
+    }
+
+    const body = {
+      address: {
+        addressLines,
+        regionCode: options.regionCode,
+        locality: options.locality,
+        administrativeArea: options.administrativeArea,
+        postalCode: options.postalCode,
+        languageCode: options.languageCode,
+      },
+      enableUspsCass: options.enableUspsCass,
+      previousResponseId: options.previousResponseId,
+    };
+    const cacheKey = createCacheKey({ type: "addressValidation", ...body });
+    const { signal } = options;
+
+    return this.cached(cacheKey, signal, async () =>
+      this.send(
+        new URLSearchParams(),
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        },
+        signal,
+        ({ response, body: text, url }) => {
+          if (!response.ok) {
+            throw this.toHttpError(response, text, url);
+          }
+
+          return this.toValidationResult(parseAddressValidationResponse(text));
+        }
+      )
+    );
+  }
+
+  /**
+   * Map a non-2xx response to an error, using the Google API error body if present
+   */
+  private toHttpError(
+    response: Response,
+    text: string,
+    url: string
+  ): GeocodingError {
+    let errorMessage: string | undefined;
+    try {
+      errorMessage = (JSON.parse(text) as RawGoogleApiError).error?.message;
+    } catch {
+      // Not a Google API error body, e.g. from a proxy
+    }
+
+    const message =
+      errorMessage ?? `HTTP ${response.status}: ${response.statusText}`;
+    const details: GeocodingErrorDetails = {
+      errorMessage,
+      httpStatus: response.status,
+      url,
+    };
+
+    switch (response.status) {
+      case 400: {
+        return new InvalidRequestError(message, details);
+      }
+
+      case 401:
+      case 403: {
+        return new ApiKeyError(message, "REQUEST_DENIED", details);
+      }
+
+      case 429: {
+        return new QuotaExceededError(message, "OVER_QUERY_LIMIT", details);
+      }
+
+      default: {
+        return new NetworkError(message, undefined, {
+          httpStatus: response.status,
+          url,
+          retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+        });
+      }
+    }
+  }
+
+  private toValidationResult(
+    raw: RawAddressValidationResponse
+  ): AddressValidationResult {
+    const { verdict, address, geocode, metadata, uspsData } = raw.result;
+
+    return {
+      verdict: {
+        inputGranularity: verdict.inputGranularity ?? "GRANULARITY_UNSPECIFIED",
+        validationGranularity:
+          verdict.validationGranularity ?? "GRANULARITY_UNSPECIFIED",
+        geocodeGranularity:
+          verdict.geocodeGranularity ?? "GRANULARITY_UNSPECIFIED",
+        addressComplete: verdict.addressComplete ?? false,
+        hasUnconfirmedComponents: verdict.hasUnconfirmedComponents ?? false,
+        hasInferredComponents: verdict.hasInferredComponents ?? false,
+        hasReplacedComponents: verdict.hasReplacedComponents ?? false,
+      },
+      address: {
+        formattedAddress: address.formattedAddress ?? "",
+        postalAddress: address.postalAddress,
+        components: (address.addressComponents ?? []).map((c) =>
+          this.toAddressComponent(c)
+        ),
+        missingComponentTypes: address.missingComponentTypes ?? [],
+        unconfirmedComponentTypes: address.unconfirmedComponentTypes ?? [],
+        unresolvedTokens: address.unresolvedTokens ?? [],
+      },
+      geocode: geocode
+        ? {
+            location: this.toLatLng(geocode.location),
+            placeId: geocode.placeId,
+            placeTypes: geocode.placeTypes ?? [],
+            plusCode: geocode.plusCode,
+            bounds: geocode.bounds
+              ? {
+                  northeast: this.toLatLng(geocode.bounds.high),
+                  southwest: this.toLatLng(geocode.bounds.low),
+                }
+              : undefined,
+            featureSizeMeters: geocode.featureSizeMeters,
+          }
+        : undefined,
+      metadata,
+      uspsData,
+      responseId: raw.responseId,
+    };
+  }
+
+  private toAddressComponent(
+    raw: RawValidatedAddressComponent
+  ): ValidatedAddressComponent {
+    return {
+      text: raw.componentName.text,
+      languageCode: raw.componentName.languageCode,
+      type: raw.componentType,
+      confirmationLevel:
+        raw.confirmationLevel ?? "CONFIRMATION_LEVEL_UNSPECIFIED",
+      inferred: raw.inferred ?? false,
+      spellCorrected: raw.spellCorrected ?? false,
+      replaced: raw.replaced ?? false,
+      unexpected: raw.unexpected ?? false,
+    };
+  }
+
+  private toLatLng(raw: RawLatLngLiteral): LatLng {
+    return { lat: raw.latitude, lng: raw.longitude };
+  }
+}
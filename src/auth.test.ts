@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { ApiKeyAuth, ClientIdAuth, signUrl } from "./auth.js";
+import { KeyPool } from "./keyPool.js";
+
+// Example from the Google Maps Platform URL signing documentation
+const SIGNING_SECRET = "vNIXE0xscrmjlyV-12Nj_BvUPaw=";
+const EXPECTED_SIGNATURE = "chaRF2hTJKOScPr-RQCEhZbSzIE=";
+
+describe("signUrl", () => {
+  it("should compute the URL-safe HMAC-SHA1 signature", () => {
+    assert.strictEqual(
+      signUrl(
+        "/maps/api/geocode/json?address=New+York&client=clientID",
+        SIGNING_SECRET
+      ),
+      EXPECTED_SIGNATURE
+    );
+  });
+});
+
+describe("ClientIdAuth", () => {
+  it("should add the client ID and a trailing signature", () => {
+    const auth = new ClientIdAuth({
+      clientId: "clientID",
+      signingSecret: SIGNING_SECRET,
+    });
+    const url = new URL(
+      "https://maps.googleapis.com/maps/api/geocode/json?address=New+York"
+    );
+
+    auth.authorize(url);
+
+    assert.strictEqual(
+      url.toString(),
+      `https://maps.googleapis.com/maps/api/geocode/json?address=New+York&client=clientID&signature=${EXPECTED_SIGNATURE}`
+    );
+  });
+
+  it("should replace an existing signature when re-authorizing", () => {
+    const auth = new ClientIdAuth({
+      clientId: "clientID",
+      signingSecret: SIGNING_SECRET,
+    });
+    const url = new URL(
+      "https://maps.googleapis.com/maps/api/geocode/json?address=New+York"
+    );
+
+    auth.authorize(url);
+    auth.authorize(url);
+
+    assert.deepStrictEqual(url.searchParams.getAll("signature"), [
+      EXPECTED_SIGNATURE,
+    ]);
+  });
+});
+
+describe("ApiKeyAuth", () => {
+  it("should add the current key and fail over on quota errors", () => {
+    const auth = new ApiKeyAuth(new KeyPool(["key-a", "key-b"]));
+    const url = new URL("https://example.com/geocode");
+
+    auth.authorize(url);
+    assert.strictEqual(url.searchParams.get("key"), "key-a");
+
+    assert.strictEqual(auth.onQuotaExceeded(url, "OVER_QUERY_LIMIT"), true);
+    auth.authorize(url);
+    assert.strictEqual(url.searchParams.get("key"), "key-b");
+  });
+});
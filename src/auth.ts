@@ -0,0 +1,136 @@
+import { createHmac } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { InvalidRequestError } from "./errors.js";
+import { KeyPool, type KeyPoolOptions } from "./keyPool.js";
+import type { GeocoderConfig, GeocodingStatus } from "./types.js";
+
+/**
+ * Adds credentials to outgoing request URLs
+ */
+export type AuthStrategy = {
+  /**
+   * Add credentials to a request URL. Called once per attempt, after every
+   * other query parameter has been set.
+   */
+  authorize(url: URL): void;
+  /**
+   * Called when a request authorized by this strategy ran out of quota
+   * @returns True if retrying with other credentials may succeed
+   */
+  onQuotaExceeded?(url: URL, status: GeocodingStatus): boolean;
+};
+
+/**
+ * Client ID credentials of a Google Maps Platform premium plan
+ */
+export type ClientIdCredentials = {
+  /** Client ID, starting with `gme-` */
+  clientId: string;
+  /** URL signing secret, URL-safe base64 encoded */
+  signingSecret: string;
+};
+
+/**
+ * Authenticate with an API key, failing over between keys of a pool
+ */
+export class ApiKeyAuth implements AuthStrategy {
+  constructor(private readonly keys: KeyPool) {}
+
+  /**
+   * Add the current key as the `key` parameter
+   */
+  authorize(url: URL): void {
+    url.searchParams.set("key", this.keys.acquire());
+  }
+
+  /**
+   * Quarantine the key used for the request
+   */
+  onQuotaExceeded(url: URL, status: GeocodingStatus): boolean {
+    return this.keys.reportQuotaExceeded(
+      url.searchParams.get("key") ?? "",
+      status
+    );
+  }
+}
+
+/**
+ * Authenticate with a client ID and an HMAC-SHA1 URL signature
+ *
+ * @example
+ * ```ts
+ * const geocoder = new Geocoder({
+ *   auth: new ClientIdAuth({ clientId: 'gme-acme', signingSecret: 'SECRET' }),
+ *   channel: 'checkout',
+ * });
+ * ```
+ */
+export class ClientIdAuth implements AuthStrategy {
+  private readonly clientId: string;
+  private readonly signingSecret: string;
+
+  constructor(credentials: ClientIdCredentials) {
+    this.clientId = credentials.clientId;
+    this.signingSecret = credentials.signingSecret;
+  }
+
+  /**
+   * Add the `client` parameter and sign the URL
+   */
+  authorize(url: URL): void {
+    url.searchParams.delete("signature");
+    url.searchParams.set("client", this.clientId);
+
+    const signature = signUrl(
+      `${url.pathname}${url.search}`,
+      this.signingSecret
+    );
+
+    // The signature must be the last parameter
+    url.search = `${url.search}&signature=${signature}`;
+  }
+}
+
+/**
+ * Get the configured auth strategy, or API key auth with a pool of the
+ * configured keys
+ * @throws {InvalidRequestError} When neither `auth` nor a valid `apiKey` is given
+ */
+export function resolveAuth(
+  config: Pick<GeocoderConfig, "apiKey" | "auth">,
+  keyPoolOptions?: KeyPoolOptions
+): AuthStrategy {
+  return config.auth ?? new ApiKeyAuth(createKeyPool(config, keyPoolOptions));
+}
+
+/**
+ * Create a pool of the configured API keys
+ * @throws {InvalidRequestError} When no valid `apiKey` is given
+ */
+export function createKeyPool(
+  config: Pick<GeocoderConfig, "apiKey">,
+  options?: KeyPoolOptions
+): KeyPool {
+  const apiKeys =
+    typeof config.apiKey === "string" ? [config.apiKey] : config.apiKey;
+  if (!apiKeys?.length || apiKeys.some((key) => !key)) {
+    throw new InvalidRequestError("API key or auth strategy is required");
+  }
+
+  return new KeyPool(apiKeys, options);
+}
+
+/**
+ * Compute the URL-safe base64 HMAC-SHA1 signature of a path and query
+ * @param pathAndQuery - The URL path and query string, e.g. `/maps/api/geocode/json?address=Paris&client=gme-acme`
+ * @param signingSecret - URL-safe base64 encoded signing secret
+ */
+export function signUrl(pathAndQuery: string, signingSecret: string): string {
+  const key = Buffer.from(signingSecret, "base64url");
+
+  return createHmac("sha1", key)
+    .update(pathAndQuery)
+    .digest("base64")
+    .replaceAll("+", "-")
+    .replaceAll("/", "_");
+}
@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { runBatch, type BatchResult } from "./batch.js";
+import type { GeocodeResult } from "./types.js";
+
+async function collect<T>(
+  generator: AsyncGenerator<BatchResult<T>>
+): Promise<Array<BatchResult<T>>> {
+  const items: Array<BatchResult<T>> = [];
+  for await (const item of generator) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+async function delayed(ms: number): Promise<GeocodeResult[]> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  return [];
+}
+
+describe("runBatch", () => {
+  it("should yield results in input order by default", async () => {
+    const items = await collect(
+      runBatch([30, 10, 20], delayed, { concurrency: 3 })
+    );
+
+    assert.deepStrictEqual(
+      items.map((item) => item.input),
+      [30, 10, 20]
+    );
+    assert.deepStrictEqual(
+      items.map((item) => item.index),
+      [0, 1, 2]
+    );
+  });
+
+  it("should yield results as completed when unordered", async () => {
+    const items = await collect(
+      runBatch([30, 10, 20], delayed, { concurrency: 3, ordered: false })
+    );
+
+    assert.deepStrictEqual(
+      items.map((item) => item.input),
+      [10, 20, 30]
+    );
+  });
+
+  it("should capture errors per item", async () => {
+    const items = await collect(
+      runBatch(["ok", "bad", "ok"], async (input) => {
+        if (input === "bad") {
+          throw new Error("bad row");
+        }
+
+        return [];
+      })
+    );
+
+    assert.strictEqual(items.length, 3);
+    assert.deepStrictEqual(items[0].results, []);
+    assert.strictEqual(items[1].error?.message, "bad row");
+    assert.deepStrictEqual(items[2].results, []);
+  });
+
+  it("should respect the concurrency limit", async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await collect(
+      runBatch(
+        [1, 2, 3, 4, 5, 6],
+        async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delayed(5);
+          active--;
+          return [];
+        },
+        { concurrency: 2 }
+      )
+    );
+
+    assert.strictEqual(maxActive, 2);
+  });
+
+  it("should stop reading input while ordered results wait on a slow request", async () => {
+    let started = 0;
+    let releaseFirst!: () => void;
+    const first = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+
+    const batch = collect(
+      runBatch(
+        Array.from({ length: 20 }, (_, index) => index),
+        async (input) => {
+          started++;
+          if (input === 0) {
+            await first;
+          }
+
+          return [];
+        },
+        { concurrency: 2 }
+      )
+    );
+
+    await delayed(20);
+    // The slow request, one in flight and two buffered results
+    assert.strictEqual(started, 4);
+
+    releaseFirst();
+    const items = await batch;
+
+    assert.strictEqual(started, 20);
+    assert.deepStrictEqual(
+      items.map((item) => item.input),
+      Array.from({ length: 20 }, (_, index) => index)
+    );
+  });
+
+  it("should accept async iterables", async () => {
+    async function* inputs() {
+      yield "a";
+      yield "b";
+    }
+
+    const items = await collect(runBatch(inputs(), async () => []));
+
+    assert.deepStrictEqual(
+      items.map((item) => item.input),
+      ["a", "b"]
+    );
+  });
+});
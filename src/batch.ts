@@ -0,0 +1,124 @@
+import type { GeocodeResult } from "./types.js";
+
+/**
+ * Batch processing options
+ */
+export type BatchOptions = {
+  /** Maximum number of requests in flight at once (default: 5) */
+  concurrency?: number;
+  /**
+   * Yield results in input order. When false, results are yielded as soon
+   * as they complete. Ordered batches buffer at most `concurrency` results
+   * behind a slow request and stop reading input until it completes
+   * (default: true)
+   */
+  ordered?: boolean;
+};
+
+/**
+ * Outcome of a single batch item. Exactly one of `results` or `error` is set.
+ */
+export type BatchResult<T> =
+  | {
+      /** Position of the input in the batch */
+      index: number;
+      input: T;
+      results: GeocodeResult[];
+      error?: undefined;
+    }
+  | {
+      /** Position of the input in the batch */
+      index: number;
+      input: T;
+      results?: undefined;
+      error: Error;
+    };
+
+/**
+ * Run `execute` over every input with bounded concurrency, yielding one
+ * result per input. Failures are captured per item and never abort the batch.
+ */
+export async function* runBatch<T>(
+  inputs: Iterable<T> | AsyncIterable<T>,
+  execute: (input: T) => Promise<GeocodeResult[]>,
+  options: BatchOptions = {}
+): AsyncGenerator<BatchResult<T>> {
+  const concurrency = Math.max(1, options.concurrency ?? 5);
+  const ordered = options.ordered ?? true;
+  // In-flight plus buffered results in ordered mode
+  const maxOutstanding = ordered ? concurrency * 2 : concurrency;
+
+  const iterator =
+    Symbol.asyncIterator in inputs
+      ? inputs[Symbol.asyncIterator]()
+      : inputs[Symbol.iterator]();
+  const pending = new Map<number, Promise<BatchResult<T>>>();
+  const completed = new Map<number, BatchResult<T>>();
+  let nextIndex = 0;
+  let nextToYield = 0;
+  let exhausted = false;
+
+  const settle = async (index: number, input: T): Promise<BatchResult<T>> => {
+    try {
+      return { index, input, results: await execute(input) };
+    } catch (error) {
+      return {
+        index,
+        input,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  };
+
+  // Top up the pool of in-flight requests
+  const topUp = async (): Promise<void> => {
+    if (
+      exhausted ||
+      pending.size >= concurrency ||
+      pending.size + completed.size >= maxOutstanding
+    ) {
+      return;
+    }
+
+    const next = await iterator.next();
+    if (next.done) {
+      exhausted = true;
+      return;
+    }
+
+    const index = nextIndex++;
+    pending.set(index, settle(index, next.value));
+    return topUp();
+  };
+
+  // Results in completion order, reading more input before each one
+  const settled: AsyncIterable<BatchResult<T>> = {
+    [Symbol.asyncIterator]: () => ({
+      async next() {
+        await topUp();
+        if (pending.size === 0) {
+          return { done: true, value: undefined };
+        }
+
+        const item = await Promise.race(pending.values());
+        pending.delete(item.index);
+        return { done: false, value: item };
+      },
+    }),
+  };
+
+  for await (const item of settled) {
+    if (!ordered) {
+      yield item;
+      continue;
+    }
+
+    // Buffer out-of-order results until the next expected index arrives
+    completed.set(item.index, item);
+    while (completed.has(nextToYield)) {
+      yield completed.get(nextToYield)!;
+      completed.delete(nextToYield);
+      nextToYield++;
+    }
+  }
+}
@@ -151,6 +151,46 @@ describe("Cache", () => {
       assert.strictEqual(shortCache.get("key2"), "value2");
     });
   });
+
+  describe("getStats", () => {
+    it("should count hits and misses", () => {
+      cache.set("key1", "value1");
+      cache.get("key1");
+      cache.get("key1");
+      cache.get("nonexistent");
+
+      const stats = cache.getStats();
+      assert.strictEqual(stats.hits, 2);
+      assert.strictEqual(stats.misses, 1);
+    });
+
+    it("should count evictions", () => {
+      cache.set("key1", "value1");
+      cache.set("key2", "value2");
+      cache.set("key3", "value3");
+      cache.set("key4", "value4");
+
+      assert.strictEqual(cache.getStats().evictions, 1);
+    });
+
+    it("should count expirations on lookup and prune", async () => {
+      const shortCache = new Cache<string>({ ttl: 20 });
+      shortCache.set("key1", "value1");
+      shortCache.set("key2", "value2");
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      shortCache.get("key1");
+      shortCache.prune();
+
+      assert.deepStrictEqual(shortCache.getStats(), {
+        hits: 0,
+        misses: 1,
+        evictions: 0,
+        expirations: 2,
+      });
+    });
+  });
 });
 
 describe("createCacheKey", () => {
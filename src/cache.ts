@@ -6,6 +6,49 @@ export type CacheOptions = {
   ttl?: number;
   /** Maximum number of entries (default: 1000) */
   maxSize?: number;
+  /**
+   * Time-to-live in milliseconds for empty (`ZERO_RESULTS`) responses.
+   * Used by `Geocoder`; empty responses are only cached when this is set.
+   */
+  negativeTtl?: number;
+};
+
+/**
+ * A value that may be returned synchronously or as a promise
+ */
+export type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Storage backend for cached geocoding results.
+ *
+ * Methods may be synchronous or asynchronous, so both in-process caches and
+ * remote stores shared across processes can be used.
+ */
+export type CacheStore<T> = {
+  /** Current number of entries, if the store can report it cheaply */
+  readonly size?: number;
+  /** Get a value, or undefined if missing or expired */
+  get(key: string): Awaitable<T | undefined>;
+  /** Store a value with an optional TTL override in milliseconds */
+  set(key: string, value: T, ttl?: number): Awaitable<void>;
+  /** Remove a value */
+  delete(key: string): Awaitable<unknown>;
+  /** Remove all values */
+  clear(): Awaitable<void>;
+};
+
+/**
+ * Cumulative cache counters
+ */
+export type CacheStats = {
+  /** Lookups that returned a value */
+  hits: number;
+  /** Lookups that found nothing or an expired entry */
+  misses: number;
+  /** Entries removed to make room for new ones */
+  evictions: number;
+  /** Entries removed because their TTL elapsed */
+  expirations: number;
 };
 
 type CacheEntry<T> = {
@@ -23,10 +66,16 @@ type CacheEntry<T> = {
  * const cached = cache.get('key');
  * ```
  */
-export class Cache<T> {
+export class Cache<T> implements CacheStore<T> {
   private readonly cache = new Map<string, CacheEntry<T>>();
   private readonly ttl: number;
   private readonly maxSize: number;
+  private readonly stats: CacheStats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+  };
 
   constructor(options: CacheOptions = {}) {
     this.ttl = options.ttl ?? 60 * 60 * 1000; // 1 hour default
@@ -41,18 +90,22 @@ export class Cache<T> {
     const entry = this.cache.get(key);
 
     if (!entry) {
+      this.stats.misses++;
       return undefined;
     }
 
     // Check if expired
     if (Date.now() > entry.expiresAt) {
       this.cache.delete(key);
+      this.stats.misses++;
+      this.stats.expirations++;
       return undefined;
     }
 
     // Move to end for LRU behavior
     this.cache.delete(key);
     this.cache.set(key, entry);
+    this.stats.hits++;
 
     return entry.value;
   }
@@ -69,6 +122,7 @@ export class Cache<T> {
       const firstKey = this.cache.keys().next().value;
       if (firstKey !== undefined) {
         this.cache.delete(firstKey);
+        this.stats.evictions++;
       }
     }
 
@@ -106,6 +160,13 @@ export class Cache<T> {
     return this.cache.size;
   }
 
+  /**
+   * Get cumulative hit, miss, eviction and expiration counters
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
   /**
    * Remove all expired entries
    */
@@ -120,6 +181,8 @@ export class Cache<T> {
       }
     }
 
+    this.stats.expirations += pruned;
+
     return pruned;
   }
 }
@@ -141,3 +204,12 @@ export function createCacheKey(parameters: Record<string, unknown>): string {
 
   return JSON.stringify(sorted);
 }
+
+/**
+ * Check whether a cache setting is a store rather than plain options
+ */
+export function isCacheStore<T>(
+  value: CacheOptions | CacheStore<T>
+): value is CacheStore<T> {
+  return typeof (value as Partial<CacheStore<T>>).get === "function";
+}
@@ -0,0 +1,178 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { ElevationClient } from "./elevationClient.js";
+import {
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+} from "./errors.js";
+import type { LatLng, RawElevationResponse } from "./types.js";
+
+const mockElevationResponse: RawElevationResponse = {
+  status: "OK",
+  results: [
+    {
+      elevation: 1608.637_939_453_125,
+      location: { lat: 39.739_153_6, lng: -104.984_703_4 },
+      resolution: 4.771_975_994_110_107,
+    },
+    {
+      elevation: -50.789_05,
+      location: { lat: 36.455_556, lng: -116.866_667 },
+      resolution: 19.087_903_976_440_43,
+    },
+  ],
+};
+
+describe("ElevationClient", () => {
+  let elevations: ElevationClient;
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>();
+    elevations = new ElevationClient({
+      apiKey: "test-api-key",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+  });
+
+  afterEach(() => {
+    elevations.dispose();
+  });
+
+  it("should look up several points in one request", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockElevationResponse))
+    );
+
+    const results = await elevations.getElevations({
+      locations: [
+        { lat: 39.739_153_6, lng: -104.984_703_4 },
+        { lat: 36.455_556, lng: -116.866_667 },
+      ],
+    });
+
+    const url = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+    assert.strictEqual(url.pathname, "/maps/api/elevation/json");
+    assert.strictEqual(
+      url.searchParams.get("locations"),
+      "39.7391536,-104.9847034|36.455556,-116.866667"
+    );
+    assert.deepStrictEqual(results, mockElevationResponse.results);
+  });
+
+  it("should look up a single point", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            status: "OK",
+            results: [mockElevationResponse.results[0]],
+          })
+        )
+    );
+
+    const result = await elevations.getElevation({
+      lat: 39.739_153_6,
+      lng: -104.984_703_4,
+    });
+
+    assert.strictEqual(result?.elevation, 1608.637_939_453_125);
+  });
+
+  it("should return null for ZERO_RESULTS", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] }))
+    );
+
+    const result = await elevations.getElevation({ lat: 0, lng: 0 });
+
+    assert.strictEqual(result, null);
+  });
+
+  it("should reject empty, oversized and invalid location lists", async () => {
+    const tooMany: LatLng[] = Array.from({ length: 513 }, () => ({
+      lat: 0,
+      lng: 0,
+    }));
+
+    await assert.rejects(
+      async () => elevations.getElevations({ locations: [] }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () => elevations.getElevations({ locations: tooMany }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () => elevations.getElevation({ lat: 0, lng: 181 }),
+      InvalidRequestError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 0);
+  });
+
+  it("should map API error statuses", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            status: "OVER_QUERY_LIMIT",
+            results: [],
+            error_message: "You have exceeded your rate-limit for this API.",
+          })
+        )
+    );
+
+    await assert.rejects(
+      async () => elevations.getElevation({ lat: 0, lng: 0 }),
+      (error: unknown) =>
+        error instanceof QuotaExceededError &&
+        error.status === "OVER_QUERY_LIMIT"
+    );
+  });
+
+  it("should throw NetworkError for non-2xx responses", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ status: "OK", results: [] }), {
+          status: 502,
+          statusText: "Bad Gateway",
+        })
+    );
+
+    await assert.rejects(
+      async () => elevations.getElevation({ lat: 0, lng: 0 }),
+      (error: unknown) =>
+        error instanceof NetworkError &&
+        error.httpStatus === 502 &&
+        error.url?.includes("key=REDACTED") === true
+    );
+  });
+
+  it("should cache lookups", async () => {
+    const cachedElevations = new ElevationClient({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: { ttl: 10_000 },
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockElevationResponse))
+    );
+
+    const locations = [
+      { lat: 39.739_153_6, lng: -104.984_703_4 },
+      { lat: 36.455_556, lng: -116.866_667 },
+    ];
+    await cachedElevations.getElevations({ locations });
+    await cachedElevations.getElevations({ locations });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+    cachedElevations.dispose();
+  });
+});
@@ -0,0 +1,131 @@
+import type { ElevationOptions, ElevationResult, LatLng } from "./types.js";
+import { createStatusError, InvalidRequestError } from "./errors.js";
+import { createCacheKey } from "./cache.js";
+import { isValidLatLng, parseElevationResponse } from "./validation.js";
+import {
+  WebServiceClient,
+  type WebServiceClientConfig,
+  type WebServiceResponse,
+} from "./webServiceClient.js";
+
+const DEFAULT_BASE_URL = "https://maps.googleapis.com/maps/api/elevation/json";
+
+/**
+ * Maximum number of points per Elevation API request
+ */
+const MAX_LOCATIONS = 512;
+
+/**
+ * Configuration options for the ElevationClient
+ */
+export type ElevationClientConfig = Omit<
+  WebServiceClientConfig<ElevationResult[]>,
+  "language"
+>;
+
+/**
+ * Client for the Google Elevation API
+ *
+ * Shares its configuration, errors, cache and rate limiter with `Geocoder`.
+ *
+ * @example
+ * ```ts
+ * const elevations = new ElevationClient({ apiKey: 'YOUR_API_KEY' });
+ *
+ * const summit = await elevations.getElevation({ lat: 39.7391536, lng: -104.9847034 });
+ * console.log(summit?.elevation); // 1608.6
+ * ```
+ */
+export class ElevationClient extends WebServiceClient<ElevationResult[]> {
+  constructor(config: ElevationClientConfig) {
+    super(config, DEFAULT_BASE_URL);
+  }
+
+  /**
+   * Look up the elevation of up to 512 points in one request
+   *
+   * @param options - The points to look up
+   * @returns One result per point, in the same order
+   * @throws {InvalidRequestError} When there are no points, too many points, or an invalid point
+   * @throws {ApiKeyError} When the API key is invalid
+   * @throws {QuotaExceededError} When the quota is exceeded
+   * @throws {NetworkError} On network failures
+   * @throws {ResponseParseError} When the response is malformed
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async getElevations(options: ElevationOptions): Promise<ElevationResult[]> {
+    const { locations, signal } = options;
+
+    if (!locations?.length) {
+      throw new InvalidRequestError("At least one location is required");
+    }
+
+    if (locations.length > MAX_LOCATIONS) {
+      throw new InvalidRequestError(
+        `At most ${MAX_LOCATIONS} locations are allowed per request`
+      );
+    }
+
+    if (!locations.every((location) => isValidLatLng(location))) {
+      throw new InvalidRequestError(
+        "Valid latitude and longitude are required"
+      );
+    }
+
+    const parameters = new URLSearchParams({
+      locations: locations
+        .map((location) => `${location.lat},${location.lng}`)
+        .join("|"),
+    });
+    const cacheKey = createCacheKey({
+      type: "elevation",
+      locations: parameters.get("locations"),
+    });
+
+    return this.cached(cacheKey, signal, async () =>
+      this.send(parameters, {}, signal, (response) =>
+        this.handleResponse(response)
+      )
+    );
+  }
+
+  /**
+   * Look up the elevation of a single point
+   *
+   * @param location - The point to look up
+   * @returns The elevation, or null if the API returned none
+   */
+  async getElevation(
+    location: LatLng,
+    options: Pick<ElevationOptions, "signal"> = {}
+  ): Promise<ElevationResult | null> {
+    const [result] = await this.getElevations({
+      locations: [location],
+      signal: options.signal,
+    });
+
+    return result ?? null;
+  }
+
+  private handleResponse({
+    response,
+    body,
+    url,
+  }: WebServiceResponse): ElevationResult[] {
+    if (!response.ok) {
+      throw this.toNetworkError(response, url);
+    }
+
+    const raw = parseElevationResponse(body);
+
+    if (raw.status === "OK") {
+      return raw.results;
+    }
+
+    if (raw.status === "ZERO_RESULTS") {
+      return [];
+    }
+
+    throw createStatusError(raw.status, raw.error_message, { url });
+  }
+}
@@ -1,10 +1,14 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import {
+  AbortError,
   GeocodingError,
   ApiKeyError,
   InvalidRequestError,
   NetworkError,
+  QuotaExceededError,
+  ResponseParseError,
+  TimeoutError,
 } from "./errors.js";
 
 describe("Error Classes", () => {
@@ -17,6 +21,34 @@ describe("Error Classes", () => {
       assert.strictEqual(error.name, "GeocodingError");
       assert.ok(error instanceof Error);
     });
+
+    it("should store structured details", () => {
+      const cause = new Error("root cause");
+      const error = new GeocodingError("Test error", "UNKNOWN_ERROR", {
+        errorMessage: "Server error",
+        httpStatus: 200,
+        url: "https://example.com/?key=REDACTED",
+        attempts: 3,
+        cause,
+      });
+
+      assert.strictEqual(error.errorMessage, "Server error");
+      assert.strictEqual(error.httpStatus, 200);
+      assert.strictEqual(error.url, "https://example.com/?key=REDACTED");
+      assert.strictEqual(error.attempts, 3);
+      assert.strictEqual(error.cause, cause);
+    });
+
+    it("should be retryable only for transient statuses", () => {
+      assert.strictEqual(
+        new GeocodingError("Oops", "UNKNOWN_ERROR").isRetryable,
+        true
+      );
+      assert.strictEqual(
+        new GeocodingError("Denied", "REQUEST_DENIED").isRetryable,
+        false
+      );
+    });
   });
 
   describe("ApiKeyError", () => {
@@ -36,6 +68,21 @@ describe("Error Classes", () => {
     });
   });
 
+  describe("QuotaExceededError", () => {
+    it("should extend ApiKeyError", () => {
+      const error = new QuotaExceededError(
+        "Quota exceeded",
+        "OVER_DAILY_LIMIT"
+      );
+
+      assert.strictEqual(error.status, "OVER_DAILY_LIMIT");
+      assert.strictEqual(error.name, "QuotaExceededError");
+      assert.ok(error instanceof GeocodingError);
+      assert.ok(error instanceof ApiKeyError);
+      assert.strictEqual(error.isRetryable, false);
+    });
+  });
+
   describe("InvalidRequestError", () => {
     it("should have INVALID_REQUEST status", () => {
       const error = new InvalidRequestError("Missing address");
@@ -56,11 +103,88 @@ describe("Error Classes", () => {
       assert.strictEqual(error.name, "NetworkError");
     });
 
+    it("should store HTTP details", () => {
+      const error = new NetworkError("HTTP 429", undefined, {
+        httpStatus: 429,
+        retryAfter: 2000,
+      });
+
+      assert.strictEqual(error.httpStatus, 429);
+      assert.strictEqual(error.retryAfter, 2000);
+    });
+
     it("should work without cause", () => {
       const error = new NetworkError("Timeout");
 
       assert.strictEqual(error.message, "Timeout");
       assert.strictEqual(error.cause, undefined);
     });
+
+    it("should extend GeocodingError without a status", () => {
+      const error = new NetworkError("Request failed");
+
+      assert.ok(error instanceof GeocodingError);
+      assert.strictEqual(error.status, undefined);
+    });
+
+    it("should be retryable for connection failures and transient HTTP statuses", () => {
+      assert.strictEqual(new NetworkError("Request failed").isRetryable, true);
+      assert.strictEqual(
+        new NetworkError("HTTP 503", undefined, { httpStatus: 503 })
+          .isRetryable,
+        true
+      );
+      assert.strictEqual(
+        new NetworkError("HTTP 404", undefined, { httpStatus: 404 })
+          .isRetryable,
+        false
+      );
+    });
+  });
+
+  describe("TimeoutError", () => {
+    it("should extend NetworkError and store the timeout", () => {
+      const error = new TimeoutError(5000);
+
+      assert.strictEqual(error.message, "Request timed out after 5000ms");
+      assert.strictEqual(error.timeout, 5000);
+      assert.strictEqual(error.name, "TimeoutError");
+      assert.ok(error instanceof NetworkError);
+      assert.strictEqual(error.isRetryable, true);
+    });
+  });
+
+  describe("AbortError", () => {
+    it("should store the abort reason", () => {
+      const error = new AbortError(undefined, "user cancelled");
+
+      assert.strictEqual(error.message, "The operation was aborted");
+      assert.strictEqual(error.reason, "user cancelled");
+      assert.strictEqual(error.name, "AbortError");
+    });
+  });
+
+  describe("ResponseParseError", () => {
+    it("should include the path in the message", () => {
+      const error = new ResponseParseError(
+        "expected number, got string",
+        "results[0].geometry.location.lat",
+        "{}"
+      );
+
+      assert.strictEqual(error.name, "ResponseParseError");
+      assert.strictEqual(error.path, "results[0].geometry.location.lat");
+      assert.strictEqual(
+        error.message,
+        "Invalid API response at results[0].geometry.location.lat: expected number, got string"
+      );
+      assert.strictEqual(error.bodySnippet, "{}");
+    });
+
+    it("should truncate long bodies", () => {
+      const error = new ResponseParseError("bad", "$", "x".repeat(500));
+
+      assert.strictEqual(error.bodySnippet, `${"x".repeat(200)}…`);
+    });
   });
 });
@@ -1,52 +1,271 @@
 import type { GeocodingStatus } from "./types.js";
 
 /**
- * Base error class for geocoding errors
+ * HTTP status codes of transient server and gateway failures
+ */
+export const RETRYABLE_HTTP_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Geocoding API statuses of transient failures
+ */
+export const RETRYABLE_STATUSES: GeocodingStatus[] = ["UNKNOWN_ERROR"];
+
+/**
+ * Structured details attached to a GeocodingError
+ */
+export type GeocodingErrorDetails = {
+  /** `error_message` returned by the Geocoding API */
+  errorMessage?: string;
+  /** HTTP status code, when the server responded */
+  httpStatus?: number;
+  /** Request URL with credentials redacted */
+  url?: string;
+  /** Number of attempts made, including retries */
+  attempts?: number;
+  /** Underlying error */
+  cause?: unknown;
+};
+
+/**
+ * Base class of every error thrown by this library
  */
 export class GeocodingError extends Error {
-  readonly status: GeocodingStatus;
+  /** Geocoding API status, when the API returned one */
+  readonly status: GeocodingStatus | undefined;
+  readonly errorMessage?: string;
+  readonly httpStatus?: number;
+  /** Request URL with credentials redacted. Set by the Geocoder. */
+  url?: string;
+  /** Number of attempts made, including retries. Set by the Geocoder. */
+  attempts?: number;
 
-  constructor(message: string, status: GeocodingStatus) {
-    super(message);
+  constructor(
+    message: string,
+    status?: GeocodingStatus,
+    details: GeocodingErrorDetails = {}
+  ) {
+    super(message, { cause: details.cause });
     this.name = "GeocodingError";
     this.status = status;
+    this.errorMessage = details.errorMessage;
+    this.httpStatus = details.httpStatus;
+    this.url = details.url;
+    this.attempts = details.attempts;
 
     // Maintains proper stack trace for where our error was thrown
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, GeocodingError);
     }
   }
+
+  /**
+   * Whether the failure is transient, so retrying the same request may
+   * succeed. Matches the default `RetryPolicy` for errors of API requests;
+   * `RateLimitError` is raised before a request is sent and is left to the
+   * caller to retry.
+   */
+  get isRetryable(): boolean {
+    return (
+      this.status !== undefined && RETRYABLE_STATUSES.includes(this.status)
+    );
+  }
 }
 
 /**
- * Error thrown when the API key is invalid or quota exceeded
+ * Error thrown when the API key is invalid or the request is denied
  */
 export class ApiKeyError extends GeocodingError {
-  constructor(message: string, status: GeocodingStatus) {
-    super(message, status);
+  constructor(
+    message: string,
+    status: GeocodingStatus,
+    details: GeocodingErrorDetails = {}
+  ) {
+    super(message, status, details);
     this.name = "ApiKeyError";
   }
 }
 
+/**
+ * Error thrown when the daily or per-second quota is exceeded. Extends
+ * `ApiKeyError`, which quota errors were reported as before, so existing
+ * `instanceof ApiKeyError` checks still match.
+ */
+export class QuotaExceededError extends ApiKeyError {
+  declare readonly status: "OVER_DAILY_LIMIT" | "OVER_QUERY_LIMIT";
+
+  constructor(
+    message: string,
+    status: "OVER_DAILY_LIMIT" | "OVER_QUERY_LIMIT",
+    details: GeocodingErrorDetails = {}
+  ) {
+    super(message, status, details);
+    this.name = "QuotaExceededError";
+  }
+}
+
 /**
  * Error thrown when the request is invalid
  */
 export class InvalidRequestError extends GeocodingError {
-  constructor(message: string) {
-    super(message, "INVALID_REQUEST");
+  constructor(message: string, details: GeocodingErrorDetails = {}) {
+    super(message, "INVALID_REQUEST", details);
     this.name = "InvalidRequestError";
   }
 }
 
 /**
- * Error thrown on network/timeout issues
+ * Additional details attached to a NetworkError
+ */
+export type NetworkErrorDetails = Omit<
+  GeocodingErrorDetails,
+  "cause" | "errorMessage"
+> & {
+  /** Delay requested by the server's `Retry-After` header, in milliseconds */
+  retryAfter?: number;
+};
+
+/**
+ * Error thrown on connection failures and non-2xx HTTP responses
  */
-export class NetworkError extends Error {
+export class NetworkError extends GeocodingError {
+  readonly retryAfter?: number;
+
   constructor(
     message: string,
-    public readonly cause?: Error
+    public readonly cause?: Error,
+    details: NetworkErrorDetails = {}
   ) {
-    super(message);
+    super(message, undefined, { ...details, cause });
     this.name = "NetworkError";
+    this.retryAfter = details.retryAfter;
+  }
+
+  /**
+   * Connection failures and transient HTTP statuses are retryable
+   */
+  override get isRetryable(): boolean {
+    return (
+      this.httpStatus === undefined ||
+      RETRYABLE_HTTP_STATUSES.includes(this.httpStatus)
+    );
+  }
+}
+
+/**
+ * Error thrown when a request exceeds the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+  /** Timeout that was exceeded, in milliseconds */
+  readonly timeout: number;
+
+  constructor(
+    timeout: number,
+    cause?: Error,
+    details: NetworkErrorDetails = {}
+  ) {
+    super(`Request timed out after ${timeout}ms`, cause, details);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Maximum length of the body snippet attached to a ResponseParseError
+ */
+const BODY_SNIPPET_LENGTH = 200;
+
+/**
+ * Error thrown when the API response is not valid JSON or does not match
+ * the expected schema
+ */
+export class ResponseParseError extends GeocodingError {
+  /** Path of the offending value, e.g. `results[0].geometry.location.lat` */
+  readonly path: string;
+  /** Start of the response body, truncated to 200 characters */
+  readonly bodySnippet: string;
+
+  constructor(
+    reason: string,
+    path: string,
+    body: string,
+    details: GeocodingErrorDetails = {}
+  ) {
+    super(`Invalid API response at ${path}: ${reason}`, undefined, details);
+    this.name = "ResponseParseError";
+    this.path = path;
+    this.bodySnippet =
+      body.length > BODY_SNIPPET_LENGTH
+        ? `${body.slice(0, BODY_SNIPPET_LENGTH)}…`
+        : body;
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class AbortError extends GeocodingError {
+  constructor(
+    message = "The operation was aborted",
+    public readonly reason?: unknown
+  ) {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Create the error for a failed Maps web service status
+ * @param status - Status returned by the API (anything but `OK` and `ZERO_RESULTS`)
+ * @param errorMessage - Error message returned by the API
+ * @param details - Request details to attach
+ */
+export function createStatusError(
+  status: GeocodingStatus,
+  errorMessage: string | undefined,
+  details: GeocodingErrorDetails = {}
+): GeocodingError {
+  const errorDetails = { ...details, errorMessage };
+
+  switch (status) {
+    case "OVER_DAILY_LIMIT":
+    case "OVER_QUERY_LIMIT": {
+      return new QuotaExceededError(
+        errorMessage ?? "API quota exceeded",
+        status,
+        errorDetails
+      );
+    }
+
+    case "REQUEST_DENIED": {
+      return new ApiKeyError(
+        errorMessage ?? "Request denied - check your API key",
+        status,
+        errorDetails
+      );
+    }
+
+    case "INVALID_REQUEST": {
+      return new InvalidRequestError(
+        errorMessage ?? "Invalid request",
+        errorDetails
+      );
+    }
+
+    default: {
+      return new GeocodingError(
+        errorMessage ?? "An unknown error occurred",
+        status,
+        errorDetails
+      );
+    }
+  }
+}
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new AbortError(undefined, signal.reason);
   }
 }
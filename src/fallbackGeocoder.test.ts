@@ -0,0 +1,238 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { FallbackGeocoder, type FallbackEvent } from "./fallbackGeocoder.js";
+import { Geocoder } from "./geocoder.js";
+import { NominatimProvider } from "./nominatimProvider.js";
+import { createRawGeocodeResult } from "./testing.js";
+import {
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+} from "./errors.js";
+import type { RawNominatimPlace } from "./types.js";
+
+const nominatimPlace: RawNominatimPlace = {
+  osm_type: "node",
+  osm_id: 42,
+  lat: "37.4224764",
+  lon: "-122.0842499",
+  display_name: "1600, Amphitheatre Parkway, Mountain View, CA, USA",
+  address: { house_number: "1600", road: "Amphitheatre Parkway" },
+};
+
+describe("FallbackGeocoder", () => {
+  let google: Geocoder;
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+  let googleBody: unknown;
+  let nominatimBody: unknown;
+
+  const createFallback = (
+    options: ConstructorParameters<typeof FallbackGeocoder>[1] = {}
+  ) =>
+    new FallbackGeocoder(
+      [google, new NominatimProvider({ userAgent: "geocode-tests/1.0" })],
+      {
+        geocoderConfig: { fetch: mockFetch, cache: false, rateLimiter: false },
+        ...options,
+      }
+    );
+
+  const requestedHosts = () =>
+    mockFetch.mock.calls.map(
+      (call) => new URL(call.arguments[0] as string).hostname
+    );
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>(async (input) => {
+      const { hostname } = new URL(input as string);
+      const body =
+        hostname === "maps.googleapis.com" ? googleBody : nominatimBody;
+      return new Response(JSON.stringify(body));
+    });
+
+    googleBody = { status: "OK", results: [createRawGeocodeResult()] };
+    nominatimBody = [nominatimPlace];
+    google = new Geocoder({
+      apiKey: "test-key",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+  });
+
+  afterEach(() => {
+    google.dispose();
+  });
+
+  it("should require at least one geocoder", () => {
+    assert.throws(() => new FallbackGeocoder([]), InvalidRequestError);
+  });
+
+  it("should return the first provider's results when they are acceptable", async () => {
+    const fallback = createFallback();
+
+    const results = await fallback.geocode({ address: "Mountain View" });
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].provider, "google");
+    assert.deepStrictEqual(requestedHosts(), ["maps.googleapis.com"]);
+
+    fallback.dispose();
+  });
+
+  it("should fall back on empty results", async () => {
+    googleBody = { status: "ZERO_RESULTS", results: [] };
+    const events: FallbackEvent[] = [];
+    const fallback = createFallback({
+      onFallback(event) {
+        events.push(event);
+      },
+    });
+
+    const [result] = await fallback.reverseGeocode({
+      latlng: { lat: 37.42, lng: -122.08 },
+    });
+
+    assert.strictEqual(result.provider, "nominatim");
+    assert.strictEqual(result.placeId, "N42");
+    assert.deepStrictEqual(events, [
+      { from: "google", to: "nominatim", reason: "empty", error: undefined },
+    ]);
+
+    fallback.dispose();
+  });
+
+  it("should fall back on partial matches and imprecise results when configured", async () => {
+    googleBody = {
+      status: "OK",
+      results: [createRawGeocodeResult({ partialMatch: true })],
+    };
+    const partial = createFallback({ fallbackOn: { partialMatch: true } });
+
+    const [fromPartial] = await partial.geocode({ address: "Mountain View" });
+    assert.strictEqual(fromPartial.provider, "nominatim");
+
+    googleBody = {
+      status: "OK",
+      results: [createRawGeocodeResult({ locationType: "APPROXIMATE" })],
+    };
+    const precise = createFallback({
+      fallbackOn: { minLocationType: "RANGE_INTERPOLATED" },
+    });
+
+    const [fromPrecise] = await precise.geocode({ address: "Mountain View" });
+    assert.strictEqual(fromPrecise.provider, "nominatim");
+
+    partial.dispose();
+    precise.dispose();
+  });
+
+  it("should fall back on quota and network errors", async () => {
+    googleBody = { status: "OVER_QUERY_LIMIT", results: [] };
+    const events: FallbackEvent[] = [];
+    const fallback = createFallback({
+      onFallback(event) {
+        events.push(event);
+        throw new Error("Callback errors are ignored");
+      },
+    });
+
+    const [result] = await fallback.geocode({ address: "Mountain View" });
+
+    assert.strictEqual(result.provider, "nominatim");
+    assert.strictEqual(events[0].reason, "error");
+    assert.ok(events[0].error instanceof QuotaExceededError);
+
+    fallback.dispose();
+  });
+
+  it("should not fall back on invalid requests", async () => {
+    googleBody = { status: "INVALID_REQUEST", results: [] };
+    const fallback = createFallback();
+
+    await assert.rejects(
+      async () => fallback.geocode({ address: "Mountain View" }),
+      InvalidRequestError
+    );
+    assert.deepStrictEqual(requestedHosts(), ["maps.googleapis.com"]);
+
+    fallback.dispose();
+  });
+
+  it("should skip later providers that cannot handle the query", async () => {
+    googleBody = {
+      status: "OK",
+      results: [createRawGeocodeResult({ locationType: "APPROXIMATE" })],
+    };
+    const events: FallbackEvent[] = [];
+    const fallback = createFallback({
+      fallbackOn: { minLocationType: "ROOFTOP" },
+      onFallback(event) {
+        events.push(event);
+      },
+    });
+
+    // Nominatim cannot combine an address with component filters
+    const results = await fallback.geocode({
+      address: "Mountain View",
+      components: { locality: "Mountain View" },
+    });
+
+    assert.strictEqual(results[0].provider, "google");
+    assert.deepStrictEqual(requestedHosts(), ["maps.googleapis.com"]);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].reason, "locationType");
+
+    fallback.dispose();
+  });
+
+  it("should throw the last fallback error when later providers cannot handle the query", async () => {
+    googleBody = { status: "OVER_QUERY_LIMIT", results: [] };
+    const fallback = createFallback();
+
+    await assert.rejects(
+      async () =>
+        fallback.reverseGeocode({
+          latlng: { lat: 37.42, lng: -122.08 },
+          resultType: ["street_address"],
+        }),
+      QuotaExceededError
+    );
+
+    fallback.dispose();
+  });
+
+  it("should return the first non-empty results when every provider falls back", async () => {
+    googleBody = {
+      status: "OK",
+      results: [createRawGeocodeResult({ locationType: "APPROXIMATE" })],
+    };
+    nominatimBody = [];
+    const fallback = createFallback({
+      fallbackOn: { minLocationType: "ROOFTOP" },
+    });
+
+    const results = await fallback.geocode({ address: "Mountain View" });
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].provider, "google");
+    assert.strictEqual(results[0].geometry.locationType, "APPROXIMATE");
+
+    fallback.dispose();
+  });
+
+  it("should throw the last error when no provider answered", async () => {
+    mockFetch.mock.mockImplementation(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const fallback = createFallback();
+
+    await assert.rejects(
+      async () => fallback.geocode({ address: "Mountain View" }),
+      NetworkError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+    fallback.dispose();
+  });
+});
@@ -0,0 +1,308 @@
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  LocationType,
+  ReverseGeocodeOptions,
+} from "./types.js";
+import {
+  AbortError,
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+  ResponseParseError,
+} from "./errors.js";
+import { RateLimitError } from "./rateLimiter.js";
+import { Geocoder, type GeocoderConfigWithFeatures } from "./geocoder.js";
+import type { GeocodingProvider } from "./provider.js";
+
+/**
+ * Location types from most to least precise
+ */
+const LOCATION_TYPE_PRECISION: LocationType[] = [
+  "ROOFTOP",
+  "RANGE_INTERPOLATED",
+  "GEOMETRIC_CENTER",
+  "APPROXIMATE",
+];
+
+/**
+ * Outcomes that make the FallbackGeocoder try the next geocoder
+ */
+export type FallbackRules = {
+  /** Fall back when no results are returned (default: true) */
+  empty?: boolean;
+  /** Fall back when the first result is a partial match (default: false) */
+  partialMatch?: boolean;
+  /**
+   * Fall back when the first result is less precise than this location type,
+   * e.g. "RANGE_INTERPOLATED" to accept interpolated addresses but not
+   * approximate ones (default: any precision is accepted)
+   */
+  minLocationType?: LocationType;
+  /**
+   * Fall back on errors of these classes
+   * (default: QuotaExceededError, NetworkError, RateLimitError, ResponseParseError)
+   */
+  errors?: Array<abstract new (...args: never[]) => Error>;
+};
+
+/**
+ * Why the FallbackGeocoder moved on to the next geocoder
+ */
+export type FallbackReason =
+  | "empty"
+  | "partialMatch"
+  | "locationType"
+  | "error";
+
+/**
+ * Emitted before the next geocoder is tried
+ */
+export type FallbackEvent = {
+  /** Provider that did not produce an acceptable answer */
+  from: string;
+  /** Provider tried next */
+  to: string;
+  reason: FallbackReason;
+  /** Error thrown by `from`, when `reason` is "error" */
+  error?: unknown;
+};
+
+/**
+ * FallbackGeocoder options
+ */
+export type FallbackGeocoderOptions = {
+  /** Outcomes that trigger a fallback */
+  fallbackOn?: FallbackRules;
+  /** Configuration of the Geocoders created for bare providers (default: Geocoder defaults) */
+  geocoderConfig?: Omit<GeocoderConfigWithFeatures, "provider">;
+  /** Called before the next geocoder is tried. Errors thrown by it are ignored. */
+  onFallback?: (event: FallbackEvent) => void;
+};
+
+/**
+ * A geocoding result annotated with the provider that produced it
+ */
+export type FallbackGeocodeResult = GeocodeResult & {
+  /** Name of the provider, e.g. "google" or "nominatim" */
+  provider: string;
+};
+
+/**
+ * Tries an ordered list of geocoders until one gives an acceptable answer
+ *
+ * Each geocoder keeps its own cache, rate limiter and retry policy. When
+ * every geocoder falls back, the first non-empty results are returned; if
+ * none answered at all, the last error is thrown. Requests the first
+ * geocoder rejects as invalid and cancellations are never retried with the
+ * next geocoder. A later geocoder that rejects the query as invalid, e.g.
+ * Nominatim given component filters, is skipped.
+ *
+ * @example
+ * ```ts
+ * const geocoder = new FallbackGeocoder(
+ *   [
+ *     new Geocoder({ apiKey: 'YOUR_API_KEY' }),
+ *     new NominatimProvider({ baseUrl: 'https://nominatim.internal' }),
+ *   ],
+ *   { fallbackOn: { empty: true, minLocationType: 'RANGE_INTERPOLATED' } }
+ * );
+ *
+ * const [result] = await geocoder.geocode({ address: 'Pariser Platz 1, Berlin' });
+ * console.log(result?.provider); // "google" or "nominatim"
+ * ```
+ */
+export class FallbackGeocoder {
+  private readonly geocoders: Geocoder[];
+  private readonly ownedGeocoders: Geocoder[];
+  private readonly rules: Required<Omit<FallbackRules, "minLocationType">> &
+    Pick<FallbackRules, "minLocationType">;
+
+  private readonly onFallback: FallbackGeocoderOptions["onFallback"];
+
+  /**
+   * @param geocoders - Geocoders, or providers to wrap in a Geocoder, in order of preference
+   * @throws {InvalidRequestError} When no geocoder is given
+   */
+  constructor(
+    geocoders: Array<Geocoder | GeocodingProvider>,
+    options: FallbackGeocoderOptions = {}
+  ) {
+    if (geocoders.length === 0) {
+      throw new InvalidRequestError("At least one geocoder is required");
+    }
+
+    this.geocoders = geocoders.map((geocoder) =>
+      geocoder instanceof Geocoder
+        ? geocoder
+        : new Geocoder({ ...options.geocoderConfig, provider: geocoder })
+    );
+    this.ownedGeocoders = this.geocoders.filter(
+      (geocoder) => !geocoders.includes(geocoder)
+    );
+
+    this.rules = {
+      empty: options.fallbackOn?.empty ?? true,
+      partialMatch: options.fallbackOn?.partialMatch ?? false,
+      minLocationType: options.fallbackOn?.minLocationType,
+      errors: options.fallbackOn?.errors ?? [
+        QuotaExceededError,
+        NetworkError,
+        RateLimitError,
+        ResponseParseError,
+      ],
+    };
+    this.onFallback = options.onFallback;
+  }
+
+  /**
+   * Geocode an address, falling back to the next geocoder as configured
+   *
+   * @throws The last error when no geocoder answered
+   * @throws {InvalidRequestError} When the options are invalid
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async geocode(options: GeocodeOptions): Promise<FallbackGeocodeResult[]> {
+    return this.run(async (geocoder) => geocoder.geocode(options));
+  }
+
+  /**
+   * Reverse geocode coordinates, falling back to the next geocoder as configured
+   *
+   * @see {@link FallbackGeocoder.geocode}
+   */
+  async reverseGeocode(
+    options: ReverseGeocodeOptions
+  ): Promise<FallbackGeocodeResult[]> {
+    return this.run(async (geocoder) => geocoder.reverseGeocode(options));
+  }
+
+  /**
+   * Dispose of the Geocoders created for bare providers. Geocoders passed in
+   * are left to their owner.
+   */
+  dispose(): void {
+    for (const geocoder of this.ownedGeocoders) {
+      geocoder.dispose();
+    }
+  }
+
+  /**
+   * Run a lookup on each geocoder in turn until one gives an acceptable answer
+   */
+  private async run(
+    lookup: (geocoder: Geocoder) => Promise<GeocodeResult[]>
+  ): Promise<FallbackGeocodeResult[]> {
+    let best: FallbackGeocodeResult[] | undefined;
+    let answered = false;
+    let lastError: unknown;
+
+    const attempt = async (index: number): Promise<FallbackGeocodeResult[]> => {
+      if (index === this.geocoders.length) {
+        if (best) {
+          return best;
+        }
+
+        if (answered) {
+          return [];
+        }
+
+        throw lastError;
+      }
+
+      const geocoder = this.geocoders[index];
+      const provider = geocoder.providerName;
+      let reason: FallbackReason | undefined;
+      let error: unknown;
+
+      try {
+        const found = await lookup(geocoder);
+        const results = found.map((result) => ({ ...result, provider }));
+
+        reason = this.getFallbackReason(results);
+        if (!reason) {
+          return results;
+        }
+
+        answered = true;
+        if (results.length > 0) {
+          best ??= results;
+        }
+      } catch (error_) {
+        // The query is valid, since an earlier geocoder accepted it, but
+        // this geocoder cannot handle it
+        const unsupported = index > 0 && error_ instanceof InvalidRequestError;
+
+        if (
+          !unsupported &&
+          !this.rules.errors.some((type) => error_ instanceof type)
+        ) {
+          // Results of earlier geocoders beat an unexpected error
+          if (answered && !(error_ instanceof AbortError)) {
+            return best ?? [];
+          }
+
+          throw error_;
+        }
+
+        reason = "error";
+        error = error_;
+        if (!unsupported) {
+          lastError = error_;
+        }
+      }
+
+      const next = this.geocoders[index + 1];
+      if (next) {
+        this.emitFallback({
+          from: provider,
+          to: next.providerName,
+          reason,
+          error,
+        });
+      }
+
+      return attempt(index + 1);
+    };
+
+    return attempt(0);
+  }
+
+  /**
+   * Check the results against the fallback rules
+   */
+  private getFallbackReason(
+    results: GeocodeResult[]
+  ): FallbackReason | undefined {
+    const [first] = results;
+    if (!first) {
+      return this.rules.empty ? "empty" : undefined;
+    }
+
+    if (this.rules.partialMatch && first.partialMatch) {
+      return "partialMatch";
+    }
+
+    const { minLocationType } = this.rules;
+    if (
+      minLocationType &&
+      LOCATION_TYPE_PRECISION.indexOf(first.geometry.locationType) >
+        LOCATION_TYPE_PRECISION.indexOf(minLocationType)
+    ) {
+      return "locationType";
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Call the `onFallback` callback, ignoring errors it throws
+   */
+  private emitFallback(event: FallbackEvent): void {
+    try {
+      this.onFallback?.(event);
+    } catch {
+      // Callbacks must never break geocoding
+    }
+  }
+}
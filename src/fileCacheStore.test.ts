@@ -0,0 +1,212 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCacheStore } from "./fileCacheStore.js";
+
+describe("FileCacheStore", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "geocode-cache-"));
+    path = join(directory, "cache.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe("get/set", () => {
+    it("should store and retrieve values", async () => {
+      const store = new FileCacheStore<string>({ path });
+
+      await store.set("key1", "value1");
+
+      assert.strictEqual(await store.get("key1"), "value1");
+      assert.strictEqual(store.size, 1);
+    });
+
+    it("should return undefined for missing keys or files", async () => {
+      const store = new FileCacheStore<string>({ path });
+      assert.strictEqual(await store.get("nonexistent"), undefined);
+    });
+
+    it("should overwrite existing values", async () => {
+      const store = new FileCacheStore<string>({ path });
+
+      await store.set("key1", "value1");
+      await store.set("key1", "value2");
+
+      assert.strictEqual(await store.get("key1"), "value2");
+      assert.strictEqual(store.size, 1);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should survive restarts", async () => {
+      const first = new FileCacheStore<string>({ path });
+      await first.set("key1", "value1");
+
+      const second = new FileCacheStore<string>({ path });
+
+      assert.strictEqual(await second.get("key1"), "value1");
+    });
+
+    it("should see writes from other instances", async () => {
+      const first = new FileCacheStore<string>({ path });
+      const second = new FileCacheStore<string>({ path });
+
+      assert.strictEqual(await second.get("key1"), undefined);
+      await first.set("key1", "value1");
+
+      assert.strictEqual(await second.get("key1"), "value1");
+    });
+
+    it("should persist deletions", async () => {
+      const first = new FileCacheStore<string>({ path });
+      await first.set("key1", "value1");
+
+      assert.strictEqual(await first.delete("key1"), true);
+      assert.strictEqual(await first.delete("key1"), false);
+
+      const second = new FileCacheStore<string>({ path });
+      assert.strictEqual(await second.get("key1"), undefined);
+    });
+
+    it("should skip corrupted lines", async () => {
+      await writeFile(path, '{"k":"key1","v":"value1","e":9999999999999}\n');
+      await appendFile(path, "{not json\n");
+
+      const store = new FileCacheStore<string>({ path });
+
+      assert.strictEqual(await store.get("key1"), "value1");
+    });
+  });
+
+  describe("TTL expiration", () => {
+    it("should expire entries after TTL", async () => {
+      const store = new FileCacheStore<string>({ path, ttl: 50 });
+      await store.set("key1", "value1");
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      assert.strictEqual(await store.get("key1"), undefined);
+    });
+
+    it("should prune expired entries from the file", async () => {
+      const store = new FileCacheStore<string>({ path });
+      await store.set("key1", "value1", 10);
+      await store.set("key2", "value2");
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      assert.strictEqual(await store.prune(), 1);
+      const contents = await readFile(path, "utf8");
+      assert.strictEqual(contents.trim().split("\n").length, 1);
+      assert.ok(contents.includes("key2"));
+    });
+  });
+
+  describe("size limits", () => {
+    it("should evict oldest entries when at capacity", async () => {
+      const store = new FileCacheStore<string>({ path, maxSize: 2 });
+
+      await store.set("key1", "value1");
+      await store.set("key2", "value2");
+      await store.set("key3", "value3");
+
+      assert.strictEqual(await store.get("key1"), undefined);
+      assert.strictEqual(await store.get("key3"), "value3");
+      assert.strictEqual(store.size, 2);
+    });
+
+    it("should compact the file once it grows too large", async () => {
+      const store = new FileCacheStore<string>({ path, maxSize: 2 });
+
+      await Array.from({ length: 10 }).reduce<Promise<void>>(
+        async (previous, _, i) => {
+          await previous;
+          await store.set("key", `value${i}`);
+        },
+        Promise.resolve()
+      );
+
+      const contents = await readFile(path, "utf8");
+      assert.ok(contents.trim().split("\n").length <= 4);
+      assert.strictEqual(await store.get("key"), "value9");
+    });
+
+    it("should reload after another instance compacts", async () => {
+      const first = new FileCacheStore<string>({ path });
+      const second = new FileCacheStore<string>({ path });
+      await first.set("key1", "value1");
+      assert.strictEqual(await second.get("key1"), "value1");
+
+      await first.clear();
+      await first.set("key2", "value2");
+
+      assert.strictEqual(await second.get("key1"), undefined);
+      assert.strictEqual(await second.get("key2"), "value2");
+    });
+  });
+
+  describe("locking", () => {
+    it("should serialize concurrent writes", async () => {
+      const first = new FileCacheStore<number>({ path });
+      const second = new FileCacheStore<number>({ path });
+
+      await Promise.all(
+        Array.from({ length: 20 }, async (_, i) =>
+          (i % 2 === 0 ? first : second).set(`key${i}`, i)
+        )
+      );
+
+      const reader = new FileCacheStore<number>({ path });
+      const values = await Promise.all(
+        Array.from({ length: 20 }, async (_, i) => reader.get(`key${i}`))
+      );
+      assert.deepStrictEqual(
+        values,
+        Array.from({ length: 20 }, (_, i) => i)
+      );
+    });
+
+    it("should remove abandoned lock files", async () => {
+      await writeFile(`${path}.lock`, "");
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      const store = new FileCacheStore<string>({ path, lockTimeout: 20 });
+      await store.set("key1", "value1");
+
+      assert.strictEqual(await store.get("key1"), "value1");
+    });
+
+    it("should not remove a lock taken over by another process", async () => {
+      const store = new FileCacheStore<unknown>({ path });
+      // Serializing the value runs while the lock is held, so this simulates
+      // another process replacing the lock after treating ours as abandoned
+      const value = {
+        toJSON() {
+          writeFileSync(`${path}.lock`, "other");
+          return "value1";
+        },
+      };
+
+      await store.set("key1", value);
+
+      assert.strictEqual(await readFile(`${path}.lock`, "utf8"), "other");
+    });
+
+    it("should release its own lock", async () => {
+      const store = new FileCacheStore<string>({ path });
+      await store.set("key1", "value1");
+
+      await assert.rejects(readFile(`${path}.lock`, "utf8"), {
+        code: "ENOENT",
+      });
+    });
+  });
+});
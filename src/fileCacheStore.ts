@@ -0,0 +1,405 @@
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  open,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+import { Buffer } from "node:buffer";
+import process from "node:process";
+import type { CacheStore } from "./cache.js";
+import { sleep } from "./retry.js";
+
+/**
+ * File cache store options
+ */
+export type FileCacheStoreOptions = {
+  /** Path of the JSON-lines cache file (created if missing) */
+  path: string;
+  /** Time-to-live in milliseconds (default: 1 hour) */
+  ttl?: number;
+  /** Maximum number of entries (default: 10000) */
+  maxSize?: number;
+  /**
+   * How long to wait for the file lock, in milliseconds. Locks held longer
+   * than this are considered abandoned and are removed (default: 5000)
+   */
+  lockTimeout?: number;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+/**
+ * A line in the cache file: either a stored value or a deletion
+ */
+type FileRecord<T> = { k: string; v: T; e: number } | { k: string; d: 1 };
+
+const NEWLINE = 0x0a;
+
+/**
+ * Persistent cache stored in an append-only JSON-lines file
+ *
+ * Every write appends a line while holding a lock file, so several processes
+ * can share one cache file. Each instance keeps an in-memory index and reads
+ * lines appended by other processes before every lookup. The file is
+ * compacted once it holds twice `maxSize` lines, dropping expired, deleted
+ * and evicted entries. When full, the oldest written entries are evicted.
+ *
+ * @example
+ * ```ts
+ * const geocoder = new Geocoder({
+ *   apiKey: 'YOUR_API_KEY',
+ *   cache: new FileCacheStore({ path: '.cache/geocode.jsonl', ttl: 7 * 24 * 60 * 60 * 1000 }),
+ * });
+ * ```
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly ttl: number;
+  private readonly maxSize: number;
+  private readonly lockTimeout: number;
+
+  /** Inode and byte offset of the file contents already loaded */
+  private inode: number | undefined;
+  private offset = 0;
+  private lineCount = 0;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: FileCacheStoreOptions) {
+    this.path = options.path;
+    this.lockPath = `${options.path}.lock`;
+    this.ttl = options.ttl ?? 60 * 60 * 1000; // 1 hour default
+    this.maxSize = options.maxSize ?? 10_000;
+    this.lockTimeout = options.lockTimeout ?? 5000;
+  }
+
+  /**
+   * Get a value from the cache
+   * @returns The cached value or undefined if not found/expired
+   */
+  async get(key: string): Promise<T | undefined> {
+    await this.serialize(async () => this.refresh());
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Set a value in the cache
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param ttl - Optional TTL override in milliseconds
+   */
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    await this.withLock(async () =>
+      this.append({ k: key, v: value, e: Date.now() + (ttl ?? this.ttl) })
+    );
+  }
+
+  /**
+   * Delete a key from the cache
+   */
+  async delete(key: string): Promise<boolean> {
+    return this.withLock(async () => {
+      await this.refresh();
+      const existed = this.entries.has(key);
+
+      await this.append({ k: key, d: 1 });
+
+      return existed;
+    });
+  }
+
+  /**
+   * Remove all entries and truncate the file
+   */
+  async clear(): Promise<void> {
+    await this.withLock(async () => {
+      this.entries.clear();
+      await this.rewrite();
+    });
+  }
+
+  /**
+   * Get the number of entries loaded from the file
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove all expired entries and compact the file
+   */
+  async prune(): Promise<number> {
+    return this.withLock(async () => {
+      await this.refresh();
+      const pruned = this.removeExpired();
+      await this.rewrite();
+      return pruned;
+    });
+  }
+
+  /**
+   * Append a record and compact the file when it grows too large.
+   * Must be called while holding the lock.
+   */
+  private async append(record: FileRecord<T>): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, `${JSON.stringify(record)}\n`, { flag: "a" });
+
+    // Read back our own line together with any written by other processes
+    await this.refresh();
+
+    if (this.lineCount > this.maxSize * 2) {
+      this.removeExpired();
+      await this.rewrite();
+    }
+  }
+
+  /**
+   * Load lines appended since the last refresh, reloading the whole file if
+   * another process replaced it
+   */
+  private async refresh(): Promise<void> {
+    let handle;
+    try {
+      handle = await open(this.path, "r");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+
+      this.reset(undefined);
+      return;
+    }
+
+    try {
+      // Stat the opened file so size and inode describe what is being read,
+      // even if another process replaces the path in between
+      const stats = await handle.stat();
+      if (stats.ino !== this.inode || stats.size < this.offset) {
+        this.reset(stats.ino);
+      }
+
+      if (stats.size === this.offset) {
+        return;
+      }
+
+      const buffer = Buffer.alloc(stats.size - this.offset);
+      const { bytesRead } = await handle.read(
+        buffer,
+        0,
+        buffer.length,
+        this.offset
+      );
+
+      // Leave a partially written last line for the next refresh
+      const end = buffer.subarray(0, bytesRead).lastIndexOf(NEWLINE) + 1;
+      this.offset += end;
+
+      for (const line of buffer.subarray(0, end).toString("utf8").split("\n")) {
+        this.applyLine(line);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Apply one line of the file to the in-memory index
+   */
+  private applyLine(line: string): void {
+    if (line.length === 0) {
+      return;
+    }
+
+    this.lineCount++;
+
+    let record: FileRecord<T>;
+    try {
+      record = JSON.parse(line) as FileRecord<T>;
+    } catch {
+      // Skip lines corrupted by a crash mid-write
+      return;
+    }
+
+    this.entries.delete(record.k);
+
+    if ("d" in record) {
+      return;
+    }
+
+    // Evict oldest entries if at capacity
+    while (this.entries.size >= this.maxSize) {
+      const firstKey = this.entries.keys().next().value;
+      if (firstKey !== undefined) {
+        this.entries.delete(firstKey);
+      }
+    }
+
+    this.entries.set(record.k, { value: record.v, expiresAt: record.e });
+  }
+
+  /**
+   * Replace the file with the current live entries
+   */
+  private async rewrite(): Promise<void> {
+    const lines = [...this.entries].map(
+      ([key, entry]) =>
+        `${JSON.stringify({ k: key, v: entry.value, e: entry.expiresAt })}\n`
+    );
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temporaryPath, lines.join(""));
+    await rename(temporaryPath, this.path);
+
+    const stats = await stat(this.path);
+    this.inode = stats.ino;
+    this.offset = stats.size;
+    this.lineCount = lines.length;
+  }
+
+  /**
+   * Remove expired entries from the in-memory index
+   */
+  private removeExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Forget everything loaded so the file is read from the start
+   */
+  private reset(inode: number | undefined): void {
+    this.entries.clear();
+    this.inode = inode;
+    this.offset = 0;
+    this.lineCount = 0;
+  }
+
+  /**
+   * Run `fn` while holding both the in-process queue and the lock file
+   */
+  private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    return this.serialize(async () => {
+      const token = await this.acquireLock();
+      try {
+        return await fn();
+      } finally {
+        await this.releaseLock(token);
+      }
+    });
+  }
+
+  /**
+   * Run `fn` after every previously queued operation of this instance
+   */
+  private async serialize<R>(fn: () => Promise<R>): Promise<R> {
+    const previous = this.pending;
+    let release!: () => void;
+    this.pending = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    try {
+      await previous;
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Create the lock file, waiting while another process holds it
+   * @returns The owner token written into the lock file
+   */
+  private async acquireLock(): Promise<string> {
+    const token = `${process.pid}:${randomUUID()}`;
+    const deadline = Date.now() + this.lockTimeout;
+    await mkdir(dirname(this.lockPath), { recursive: true });
+
+    const attempt = async (): Promise<string> => {
+      try {
+        await writeFile(this.lockPath, token, { flag: "wx" });
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      if (await this.isLockStale()) {
+        await rm(this.lockPath, { force: true });
+        return attempt();
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for cache lock ${this.lockPath}`);
+      }
+
+      await sleep(10);
+      return attempt();
+    };
+
+    return attempt();
+  }
+
+  /**
+   * Remove the lock file, unless another process has taken it over after
+   * treating our lock as abandoned
+   */
+  private async releaseLock(token: string): Promise<void> {
+    let owner;
+    try {
+      owner = await readFile(this.lockPath, "utf8");
+    } catch {
+      // Lock was already removed
+      return;
+    }
+
+    if (owner === token) {
+      await rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Check whether the lock file was left behind by a crashed process
+   */
+  private async isLockStale(): Promise<boolean> {
+    try {
+      const stats = await stat(this.lockPath);
+      return Date.now() - stats.mtimeMs > this.lockTimeout;
+    } catch {
+      // Lock was released in the meantime
+      return false;
+    }
+  }
+}
@@ -1,8 +1,19 @@
 import { describe, it, beforeEach, afterEach, mock } from "node:test";
 import assert from "node:assert";
 import { Geocoder } from "./geocoder.js";
-import { InvalidRequestError, ApiKeyError, NetworkError } from "./errors.js";
-import type { RawGeocodeResponse } from "./types.js";
+import { ClientIdAuth } from "./auth.js";
+import {
+  AbortError,
+  GeocodingError,
+  InvalidRequestError,
+  ApiKeyError,
+  NetworkError,
+  QuotaExceededError,
+  ResponseParseError,
+  TimeoutError,
+} from "./errors.js";
+import type { CacheStore } from "./cache.js";
+import type { GeocodeResult, RawGeocodeResponse } from "./types.js";
 
 // Mock response data
 const mockGeocodeResponse: RawGeocodeResponse = {
@@ -92,6 +103,39 @@ describe("Geocoder", () => {
       assert.strictEqual(results[0].placeId, "ChIJ2eUgeAK6j4ARbn5u_wAGqWA");
     });
 
+    it("should keep address types missing from AddressType", async () => {
+      const [raw] = mockGeocodeResponse.results;
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              status: "OK",
+              results: [
+                {
+                  ...raw,
+                  address_components: [
+                    {
+                      long_name: "Mountain View",
+                      short_name: "Mountain View",
+                      types: ["locality", "spaceport"],
+                    },
+                  ],
+                  types: ["street_address", "spaceport"],
+                },
+              ],
+            })
+          )
+      );
+
+      const [result] = await geocoder.geocode({ address: "test" });
+
+      assert.deepStrictEqual(result.types, ["street_address", "spaceport"]);
+      assert.deepStrictEqual(result.addressComponents[0].types, [
+        "locality",
+        "spaceport",
+      ]);
+    });
+
     it("should throw InvalidRequestError for empty address", async () => {
       await assert.rejects(
         async () => geocoder.geocode({ address: "" }),
@@ -123,7 +167,7 @@ describe("Geocoder", () => {
       assert.strictEqual(results.length, 0);
     });
 
-    it("should throw ApiKeyError for quota exceeded", async () => {
+    it("should throw QuotaExceededError for quota exceeded", async () => {
       mockFetch.mock.mockImplementation(
         async () =>
           new Response(
@@ -137,7 +181,11 @@ describe("Geocoder", () => {
 
       await assert.rejects(
         async () => geocoder.geocode({ address: "test" }),
-        ApiKeyError
+        (error: unknown) =>
+          error instanceof QuotaExceededError &&
+          error.status === "OVER_QUERY_LIMIT" &&
+          error.errorMessage === "You have exceeded your quota" &&
+          error.httpStatus === 200
       );
     });
 
@@ -241,6 +289,55 @@ describe("Geocoder", () => {
     });
   });
 
+  describe("geocodeByPlaceId", () => {
+    it("should look up a place ID", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await geocoder.geocodeByPlaceId(
+        "ChIJ2eUgeAK6j4ARbn5u_wAGqWA",
+        { language: "de" }
+      );
+
+      assert.strictEqual(results[0].placeId, "ChIJ2eUgeAK6j4ARbn5u_wAGqWA");
+
+      const url = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+      assert.strictEqual(
+        url.searchParams.get("place_id"),
+        "ChIJ2eUgeAK6j4ARbn5u_wAGqWA"
+      );
+      assert.strictEqual(url.searchParams.get("language"), "de");
+      assert.strictEqual(url.searchParams.has("address"), false);
+    });
+
+    it("should throw InvalidRequestError for an empty place ID", async () => {
+      await assert.rejects(
+        async () => geocoder.geocodeByPlaceId("  "),
+        InvalidRequestError
+      );
+    });
+
+    it("should cache place ID lookups", async () => {
+      const cachedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: { ttl: 10_000 },
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await cachedGeocoder.geocodeByPlaceId("ChIJ2eUgeAK6j4ARbn5u_wAGqWA");
+      await cachedGeocoder.geocodeByPlaceId("ChIJ2eUgeAK6j4ARbn5u_wAGqWA");
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+      cachedGeocoder.dispose();
+    });
+  });
+
   describe("getCoordinates", () => {
     it("should return coordinates for an address", async () => {
       mockFetch.mock.mockImplementation(
@@ -307,6 +404,101 @@ describe("Geocoder", () => {
     });
   });
 
+  describe("batch", () => {
+    it("should geocode every input and capture per-item errors", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const items = [];
+      for await (const item of geocoder.geocodeBatch([
+        { address: "first" },
+        { address: "" },
+        { address: "second" },
+      ])) {
+        items.push(item);
+      }
+
+      assert.strictEqual(items.length, 3);
+      assert.strictEqual(items[0].results?.length, 1);
+      assert.ok(items[1].error instanceof InvalidRequestError);
+      assert.strictEqual(items[2].results?.length, 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+    });
+
+    it("should request identical inputs only once", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const items = [];
+      for await (const item of geocoder.reverseGeocodeBatch(
+        [
+          { latlng: { lat: 1, lng: 2 } },
+          { latlng: { lat: 1, lng: 2 } },
+          { latlng: { lat: 3, lng: 4 } },
+        ],
+        { concurrency: 3 }
+      )) {
+        items.push(item);
+      }
+
+      assert.strictEqual(items.length, 3);
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+    });
+  });
+
+  describe("in-flight deduplication", () => {
+    it("should share one request between concurrent identical calls", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await Promise.all(
+        Array.from({ length: 50 }, async () =>
+          geocoder.geocode({ address: "1600 Amphitheatre Parkway" })
+        )
+      );
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+      assert.ok(results.every((result) => result.length === 1));
+    });
+
+    it("should propagate errors to every waiter", async () => {
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({ status: "REQUEST_DENIED", results: [] })
+          )
+      );
+
+      const calls = Array.from({ length: 3 }, async () =>
+        geocoder.geocode({ address: "test" })
+      );
+
+      await Promise.all(
+        calls.map(async (call) => {
+          await assert.rejects(call, ApiKeyError);
+        })
+      );
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+    });
+
+    it("should not share requests with different parameters", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await Promise.all([
+        geocoder.geocode({ address: "test", language: "en" }),
+        geocoder.geocode({ address: "test", language: "de" }),
+      ]);
+
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+    });
+  });
+
   describe("caching", () => {
     it("should cache results when enabled", async () => {
       const cachedGeocoder = new Geocoder({
@@ -361,11 +553,160 @@ describe("Geocoder", () => {
       await cachedGeocoder.geocode({ address: "test" });
       assert.strictEqual(cachedGeocoder.getCacheStats().size, 1);
 
-      cachedGeocoder.clearCache();
+      await cachedGeocoder.clearCache();
       assert.strictEqual(cachedGeocoder.getCacheStats().size, 0);
 
       cachedGeocoder.dispose();
     });
+
+    it("should not cache empty results by default", async () => {
+      const cachedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: { ttl: 10_000 },
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] }))
+      );
+
+      await cachedGeocoder.geocode({ address: "garbage" });
+      await cachedGeocoder.geocode({ address: "garbage" });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+      assert.strictEqual(cachedGeocoder.getCacheStats().negativeEnabled, false);
+
+      cachedGeocoder.dispose();
+    });
+
+    it("should cache empty results when negativeTtl is set", async () => {
+      const cachedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: { ttl: 10_000, negativeTtl: 50 },
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] }))
+      );
+
+      await cachedGeocoder.geocode({ address: "garbage" });
+      const results = await cachedGeocoder.geocode({ address: "garbage" });
+
+      assert.deepStrictEqual(results, []);
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+      // Negative entries expire on their own TTL
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await cachedGeocoder.geocode({ address: "garbage" });
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+      cachedGeocoder.dispose();
+    });
+
+    it("should report positive and negative counts separately", async () => {
+      const cachedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: { ttl: 10_000, negativeTtl: 1000 },
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementationOnce(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] })),
+        0
+      );
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await cachedGeocoder.geocode({ address: "garbage" });
+      await cachedGeocoder.geocode({ address: "real" });
+
+      const stats = cachedGeocoder.getCacheStats();
+      assert.strictEqual(stats.size, 2);
+      assert.strictEqual(stats.positiveSize, 1);
+      assert.strictEqual(stats.negativeSize, 1);
+      assert.strictEqual(stats.negativeEnabled, true);
+
+      await cachedGeocoder.clearCache();
+      assert.strictEqual(cachedGeocoder.getCacheStats().size, 0);
+
+      cachedGeocoder.dispose();
+    });
+
+    it("should use a custom async cache store", async () => {
+      const entries = new Map<string, GeocodeResult[]>();
+      const store: CacheStore<GeocodeResult[]> = {
+        async get(key) {
+          return entries.get(key);
+        },
+        async set(key, value) {
+          entries.set(key, value);
+        },
+        async delete(key) {
+          return entries.delete(key);
+        },
+        async clear() {
+          entries.clear();
+        },
+      };
+      const storeGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: store,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await storeGeocoder.geocode({ address: "test address" });
+      await storeGeocoder.geocode({ address: "test address" });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+      assert.strictEqual(entries.size, 1);
+
+      // Shared stores are not cleared on dispose
+      storeGeocoder.dispose();
+      assert.strictEqual(entries.size, 1);
+    });
+
+    it("should treat a failing cache store as a miss", async () => {
+      const store: CacheStore<GeocodeResult[]> = {
+        async get() {
+          throw new Error("connection refused");
+        },
+        async set() {
+          throw new Error("connection refused");
+        },
+        async delete() {
+          return false;
+        },
+        async clear() {
+          // Nothing to clear
+        },
+      };
+      const storeGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: store,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await storeGeocoder.geocode({ address: "test address" });
+
+      assert.strictEqual(results.length, 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+      assert.strictEqual(storeGeocoder.getMetrics().cache.errors, 2);
+
+      storeGeocoder.dispose();
+    });
   });
 
   describe("rate limiting", () => {
@@ -403,6 +744,553 @@ describe("Geocoder", () => {
     });
   });
 
+  describe("transport", () => {
+    it("should use the configured fetch instead of the global", async () => {
+      const customFetch = mock.fn<typeof globalThis.fetch>(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+      const customGeocoder = new Geocoder({
+        apiKey: "test",
+        fetch: customFetch,
+        cache: false,
+        rateLimiter: false,
+      });
+
+      await customGeocoder.geocode({ address: "test" });
+
+      assert.strictEqual(customFetch.mock.callCount(), 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 0);
+
+      customGeocoder.dispose();
+    });
+
+    it("should apply request and response interceptors", async () => {
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] }))
+      );
+      const interceptedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        interceptors: {
+          request: [
+            (request) => ({
+              ...request,
+              init: { ...request.init, headers: { "X-Signed": "1" } },
+            }),
+          ],
+          response: [
+            async () => new Response(JSON.stringify(mockGeocodeResponse)),
+          ],
+        },
+      });
+
+      const results = await interceptedGeocoder.geocode({ address: "test" });
+
+      const init = mockFetch.mock.calls[0].arguments[1];
+      assert.deepStrictEqual(init?.headers, { "X-Signed": "1" });
+      assert.strictEqual(results.length, 1);
+
+      interceptedGeocoder.dispose();
+    });
+  });
+
+  describe("retry", () => {
+    it("should retry transient HTTP errors", async () => {
+      const retryingGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      });
+
+      mockFetch.mock.mockImplementationOnce(
+        async () => new Response("Unavailable", { status: 503 }),
+        0
+      );
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await retryingGeocoder.geocode({ address: "test" });
+
+      assert.strictEqual(results.length, 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+      retryingGeocoder.dispose();
+    });
+
+    it("should retry UNKNOWN_ERROR responses until attempts run out", async () => {
+      const retryingGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        retry: { maxAttempts: 3, baseDelay: 1 },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ status: "UNKNOWN_ERROR", results: [] }))
+      );
+
+      await assert.rejects(
+        async () => retryingGeocoder.geocode({ address: "test" }),
+        GeocodingError
+      );
+      assert.strictEqual(mockFetch.mock.callCount(), 3);
+
+      retryingGeocoder.dispose();
+    });
+
+    it("should not retry by default", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response("Unavailable", { status: 503 })
+      );
+
+      await assert.rejects(
+        async () => geocoder.geocode({ address: "test" }),
+        NetworkError
+      );
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+    });
+  });
+
+  describe("abort signal", () => {
+    it("should reject with AbortError when already aborted", async () => {
+      await assert.rejects(
+        async () =>
+          geocoder.geocode({ address: "test", signal: AbortSignal.abort() }),
+        AbortError
+      );
+      assert.strictEqual(mockFetch.mock.callCount(), 0);
+    });
+
+    it("should cancel an in-flight request", async () => {
+      mockFetch.mock.mockImplementation(
+        async (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              reject(new DOMException("Aborted", "AbortError"));
+            });
+          })
+      );
+      const controller = new AbortController();
+
+      const pending = geocoder.reverseGeocode({
+        latlng: { lat: 1, lng: 2 },
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await assert.rejects(async () => pending, AbortError);
+    });
+
+    it("should cancel a request waiting for the rate limiter", async () => {
+      const limitedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: { maxRequests: 1, interval: 60_000 },
+      });
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+      const controller = new AbortController();
+
+      await limitedGeocoder.geocode({ address: "first" });
+      const pending = limitedGeocoder.getCoordinates("second", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await assert.rejects(async () => pending, AbortError);
+      assert.strictEqual(limitedGeocoder.getRateLimiterStats().queueSize, 0);
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+      limitedGeocoder.dispose();
+    });
+
+    it("should report timeouts as TimeoutError", async () => {
+      const timeoutGeocoder = new Geocoder({
+        apiKey: "test",
+        timeout: 10,
+        cache: false,
+        rateLimiter: false,
+      });
+      mockFetch.mock.mockImplementation(
+        async (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              reject(new DOMException("Aborted", "AbortError"));
+            });
+          })
+      );
+
+      await assert.rejects(
+        async () => timeoutGeocoder.geocode({ address: "test" }),
+        (error: unknown) =>
+          error instanceof TimeoutError &&
+          error instanceof NetworkError &&
+          error.timeout === 10
+      );
+
+      timeoutGeocoder.dispose();
+    });
+  });
+
+  describe("metrics", () => {
+    it("should count cache hits and misses", async () => {
+      const cachedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: { ttl: 10_000 },
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await cachedGeocoder.geocode({ address: "test" });
+      await cachedGeocoder.geocode({ address: "test" });
+
+      const stats = cachedGeocoder.getCacheStats();
+      assert.strictEqual(stats.hits, 1);
+      assert.strictEqual(stats.misses, 1);
+
+      cachedGeocoder.dispose();
+    });
+
+    it("should count requests by status and record latency", async () => {
+      mockFetch.mock.mockImplementationOnce(
+        async () => new Response("Unavailable", { status: 503 }),
+        0
+      );
+      mockFetch.mock.mockImplementationOnce(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] })),
+        1
+      );
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await assert.rejects(async () => geocoder.geocode({ address: "a" }));
+      await geocoder.geocode({ address: "b" });
+      await geocoder.geocode({ address: "c" });
+
+      const metrics = geocoder.getMetrics();
+      assert.strictEqual(metrics.requests.total, 3);
+      assert.deepStrictEqual(metrics.requests.byStatus, {
+        HTTP_503: 1,
+        ZERO_RESULTS: 1,
+        OK: 1,
+      });
+      assert.strictEqual(metrics.latency.count, 3);
+      assert.strictEqual(metrics.latency.buckets.at(-1)?.count, 3);
+    });
+
+    it("should call onUpdate after every request", async () => {
+      const snapshots: number[] = [];
+      const observedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        metrics: {
+          onUpdate(metrics) {
+            snapshots.push(metrics.requests.total);
+          },
+        },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await observedGeocoder.geocode({ address: "a" });
+      await observedGeocoder.geocode({ address: "b" });
+
+      assert.deepStrictEqual(snapshots, [1, 2]);
+
+      observedGeocoder.dispose();
+    });
+
+    it("should ignore errors thrown by onUpdate", async () => {
+      const observedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        metrics: {
+          onUpdate() {
+            throw new Error("exporter down");
+          },
+        },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await observedGeocoder.geocode({ address: "a" });
+      assert.strictEqual(results.length, 1);
+
+      observedGeocoder.dispose();
+    });
+  });
+
+  describe("hooks", () => {
+    it("should emit request lifecycle events", async () => {
+      const events: string[] = [];
+      let requestUrl: string | undefined;
+      let responseStatus: string | undefined;
+      const hookedGeocoder = new Geocoder({
+        apiKey: "secret-key",
+        cache: { ttl: 10_000 },
+        rateLimiter: false,
+        hooks: {
+          onCacheMiss: () => events.push("cacheMiss"),
+          onCacheHit: () => events.push("cacheHit"),
+          onRequest(event) {
+            events.push("request");
+            requestUrl = event.url;
+          },
+          onResponse(event) {
+            events.push("response");
+            responseStatus = event.status;
+          },
+        },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await hookedGeocoder.geocode({ address: "test" });
+      await hookedGeocoder.geocode({ address: "test" });
+
+      assert.deepStrictEqual(events, [
+        "cacheMiss",
+        "request",
+        "response",
+        "cacheHit",
+      ]);
+      assert.strictEqual(responseStatus, "OK");
+      assert.ok(requestUrl?.includes("key=REDACTED"));
+      assert.ok(!requestUrl?.includes("secret-key"));
+
+      hookedGeocoder.dispose();
+    });
+
+    it("should emit retry and error events", async () => {
+      const retries: number[] = [];
+      const errors: unknown[] = [];
+      const hookedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+        hooks: {
+          onRetry: (event) => retries.push(event.attempt),
+          onError: (event) => errors.push(event.error),
+        },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response("Unavailable", { status: 503 })
+      );
+
+      await assert.rejects(
+        async () => hookedGeocoder.geocode({ address: "test" }),
+        NetworkError
+      );
+
+      assert.deepStrictEqual(retries, [1]);
+      assert.strictEqual(errors.length, 1);
+      assert.ok(errors[0] instanceof NetworkError);
+
+      hookedGeocoder.dispose();
+    });
+
+    it("should ignore errors thrown by hooks", async () => {
+      const hookedGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        hooks: {
+          onRequest() {
+            throw new Error("broken hook");
+          },
+        },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await hookedGeocoder.geocode({ address: "test" });
+      assert.strictEqual(results.length, 1);
+
+      hookedGeocoder.dispose();
+    });
+  });
+
+  describe("response validation", () => {
+    it("should throw ResponseParseError for non-JSON bodies", async () => {
+      mockFetch.mock.mockImplementation(
+        async () => new Response("<html>Proxy error</html>")
+      );
+
+      await assert.rejects(
+        async () => geocoder.geocode({ address: "test" }),
+        (error: unknown) =>
+          error instanceof ResponseParseError &&
+          error.bodySnippet === "<html>Proxy error</html>"
+      );
+      assert.deepStrictEqual(geocoder.getMetrics().requests.byStatus, {
+        INVALID_RESPONSE: 1,
+      });
+    });
+
+    it("should drop malformed results in lenient mode", async () => {
+      const lenientGeocoder = new Geocoder({
+        apiKey: "test",
+        cache: false,
+        rateLimiter: false,
+        responseValidation: "lenient",
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              status: "OK",
+              results: [{ place_id: 42 }, ...mockGeocodeResponse.results],
+            })
+          )
+      );
+
+      const results = await lenientGeocoder.geocode({ address: "test" });
+      assert.strictEqual(results.length, 1);
+
+      lenientGeocoder.dispose();
+    });
+  });
+
+  describe("key pool", () => {
+    it("should fail over to the next key on quota errors", async () => {
+      const pooledGeocoder = new Geocoder({
+        apiKey: ["key-a", "key-b"],
+        cache: false,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(async (url) =>
+        (url as string).includes("key=key-a")
+          ? new Response(
+              JSON.stringify({ status: "OVER_QUERY_LIMIT", results: [] })
+            )
+          : new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      const results = await pooledGeocoder.geocode({ address: "a" });
+      await pooledGeocoder.geocode({ address: "b" });
+
+      assert.strictEqual(results.length, 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 3);
+
+      const [first, second] = pooledGeocoder.getKeyUsage();
+      assert.strictEqual(first.requests, 1);
+      assert.strictEqual(first.quotaErrors, 1);
+      assert.strictEqual(first.available, false);
+      assert.strictEqual(second.requests, 2);
+
+      pooledGeocoder.dispose();
+    });
+
+    it("should throw QuotaExceededError when every key is exhausted", async () => {
+      const pooledGeocoder = new Geocoder({
+        apiKey: ["key-a", "key-b"],
+        cache: false,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({ status: "OVER_DAILY_LIMIT", results: [] })
+          )
+      );
+
+      await assert.rejects(
+        async () => pooledGeocoder.geocode({ address: "test" }),
+        (error: unknown) =>
+          error instanceof QuotaExceededError && error.attempts === 2
+      );
+
+      pooledGeocoder.dispose();
+    });
+
+    it("should try every key at most once per call when keys recover immediately", async () => {
+      const pooledGeocoder = new Geocoder({
+        apiKey: ["key-a", "key-b"],
+        keyPool: { cooldown: 0 },
+        cache: false,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({ status: "OVER_QUERY_LIMIT", results: [] })
+          )
+      );
+
+      await assert.rejects(
+        async () => pooledGeocoder.geocode({ address: "test" }),
+        QuotaExceededError
+      );
+      assert.ok(mockFetch.mock.callCount() <= 2);
+
+      pooledGeocoder.dispose();
+    });
+
+    it("should reject an empty key list", () => {
+      assert.throws(() => new Geocoder({ apiKey: [] }), InvalidRequestError);
+    });
+  });
+
+  describe("authentication", () => {
+    it("should sign requests with a client ID and add the channel", async () => {
+      const signedGeocoder = new Geocoder({
+        auth: new ClientIdAuth({
+          clientId: "gme-acme",
+          signingSecret: "vNIXE0xscrmjlyV-12Nj_BvUPaw=",
+        }),
+        channel: "checkout",
+        cache: false,
+        rateLimiter: false,
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response(JSON.stringify(mockGeocodeResponse))
+      );
+
+      await signedGeocoder.geocode({ address: "Paris" });
+
+      const url = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+      assert.strictEqual(url.searchParams.get("client"), "gme-acme");
+      assert.strictEqual(url.searchParams.get("channel"), "checkout");
+      assert.strictEqual(url.searchParams.has("key"), false);
+      assert.match(url.search, /&signature=[\w-]+=*$/);
+      assert.deepStrictEqual(signedGeocoder.getKeyUsage(), []);
+
+      signedGeocoder.dispose();
+    });
+
+    it("should require an API key or auth strategy", () => {
+      assert.throws(() => new Geocoder({}), InvalidRequestError);
+    });
+  });
+
   describe("network errors", () => {
     it("should throw NetworkError on HTTP error", async () => {
       mockFetch.mock.mockImplementation(
@@ -415,6 +1303,32 @@ describe("Geocoder", () => {
       );
     });
 
+    it("should attach the sanitized URL and attempt count", async () => {
+      const retryingGeocoder = new Geocoder({
+        apiKey: "secret-key",
+        cache: false,
+        rateLimiter: false,
+        retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+      });
+
+      mockFetch.mock.mockImplementation(
+        async () => new Response("Unavailable", { status: 503 })
+      );
+
+      await assert.rejects(
+        async () => retryingGeocoder.geocode({ address: "test" }),
+        (error: unknown) =>
+          error instanceof NetworkError &&
+          error.httpStatus === 503 &&
+          error.attempts === 2 &&
+          error.isRetryable &&
+          error.url?.includes("key=REDACTED") === true &&
+          !error.url.includes("secret-key")
+      );
+
+      retryingGeocoder.dispose();
+    });
+
     it("should throw NetworkError on fetch failure", async () => {
       mockFetch.mock.mockImplementation(async () => {
         throw new Error("Network failure");
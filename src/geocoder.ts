@@ -2,40 +2,147 @@ import type {
   GeocoderConfig,
   GeocodeOptions,
   ReverseGeocodeOptions,
+  PlaceIdOptions,
   GeocodeResult,
   LatLng,
-  RawGeocodeResponse,
-  RawGeocodeResult,
-  RawAddressComponent,
-  RawGeometry,
-  RawPlusCode,
+  RequestOptions,
 } from "./types.js";
 import {
   GeocodingError,
-  ApiKeyError,
   InvalidRequestError,
   NetworkError,
+  QuotaExceededError,
+  ResponseParseError,
+  TimeoutError,
+  throwIfAborted,
 } from "./errors.js";
-import { Cache, createCacheKey, type CacheOptions } from "./cache.js";
-import { RateLimiter, type RateLimiterOptions } from "./rateLimiter.js";
+import {
+  Cache,
+  createCacheKey,
+  isCacheStore,
+  type CacheOptions,
+  type CacheStats,
+  type CacheStore,
+} from "./cache.js";
+import {
+  RateLimiter,
+  type RateLimiterOptions,
+  type RateLimiterStats,
+} from "./rateLimiter.js";
+import { runBatch, type BatchOptions, type BatchResult } from "./batch.js";
+import { SingleFlight } from "./singleFlight.js";
+import {
+  MetricsRecorder,
+  type GeocoderMetrics,
+  type MetricsOptions,
+} from "./metrics.js";
+import type { KeyPoolOptions, KeyUsage } from "./keyPool.js";
+import { sanitizeUrl, type GeocoderHooks } from "./hooks.js";
+import { isValidLatLng } from "./validation.js";
+import type {
+  GeocodingProvider,
+  GeocodingQuery,
+  ProviderRequest,
+} from "./provider.js";
+import { GoogleProvider } from "./googleProvider.js";
+import type { OfflineReverseGeocoder } from "./offlineReverseGeocoder.js";
+import {
+  resolveAddressNormalizer,
+  type AddressNormalizer,
+} from "./addressNormalizer.js";
+import {
+  ReverseCache,
+  type ReverseCacheOptions,
+  type ReverseCacheStats,
+} from "./reverseCache.js";
+import { createTransport, type Transport } from "./transport.js";
+import {
+  RetryPolicy,
+  parseRetryAfter,
+  sleep,
+  type RetryOptions,
+} from "./retry.js";
 
-const DEFAULT_BASE_URL = "https://maps.googleapis.com/maps/api/geocode/json";
 const DEFAULT_TIMEOUT = 10_000;
 
+/**
+ * Validated query and its cache key
+ */
+type PreparedRequest = {
+  query: GeocodingQuery;
+  cacheKey: string;
+  signal?: AbortSignal;
+  /** Coordinates and other options of a reverse lookup, for the reverse cache */
+  point?: ReversePoint;
+};
+
+/**
+ * Coordinates of a reverse lookup and a key of its other options
+ */
+type ReversePoint = {
+  latlng: LatLng;
+  group: string;
+};
+
+/**
+ * A single attempt of a request
+ */
+type Attempt = {
+  cacheKey: string;
+  attempt: number;
+  signal?: AbortSignal;
+};
+
 /**
  * Extended configuration options for the Geocoder client
  */
 export type GeocoderConfigWithFeatures = {
   /**
-   * Cache configuration. Set to false to disable caching.
-   * Default: enabled with 1 hour TTL
+   * Cache configuration or a custom cache store. Set to false to disable caching.
+   * Default: in-memory cache with 1 hour TTL
    */
-  cache?: CacheOptions | false;
+  cache?: CacheOptions | CacheStore<GeocodeResult[]> | false;
   /**
    * Rate limiter configuration. Set to false to disable rate limiting.
    * Default: enabled with 50 requests/second
    */
   rateLimiter?: RateLimiterOptions | false;
+  /**
+   * Retry policy for transient failures. Set to true to use the defaults.
+   * Default: disabled
+   */
+  retry?: RetryOptions | boolean;
+  /** Metrics configuration (histogram buckets and update callback) */
+  metrics?: MetricsOptions;
+  /** Lifecycle hooks for tracing and logging */
+  hooks?: GeocoderHooks;
+  /** Quarantine cooldowns for keys that run out of quota, when `apiKey` lists several keys */
+  keyPool?: KeyPoolOptions;
+  /**
+   * Geocoding backend. Default: Google, configured with `apiKey`, `auth`,
+   * `channel`, `baseUrl`, `responseValidation` and `keyPool`
+   */
+  provider?: GeocodingProvider;
+  /**
+   * Local boundary dataset answering `reverseGeocode` calls whose
+   * `resultType` it fully covers, e.g. `["country"]`. The API is called when
+   * it lacks a boundary of any requested type at the point, or fails to
+   * load. Default: disabled
+   */
+  offlineReverseGeocoder?: OfflineReverseGeocoder;
+  /**
+   * Share cached reverse geocoding results between nearby coordinates, by
+   * snapping them to cells and/or serving cached points within a radius.
+   * Default: exact coordinates
+   */
+  reverseCache?: ReverseCacheOptions;
+  /**
+   * Normalize addresses in cache keys, so spellings such as "123 Main St."
+   * and "123  main street" share one cache entry and one request. The API
+   * still receives the address as given. Set to true for
+   * `defaultAddressNormalizer`. Default: disabled
+   */
+  normalizeAddress?: boolean | AddressNormalizer;
 } & GeocoderConfig;
 
 /**
@@ -66,6 +173,15 @@ export type GeocoderConfigWithFeatures = {
  *
  * @example
  * ```ts
+ * // Share cached results across processes
+ * const geocoder = new Geocoder({
+ *   apiKey: 'YOUR_API_KEY',
+ *   cache: new RedisCacheStore({ client: redisClient }),
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
  * // Disable caching and rate limiting
  * const geocoder = new Geocoder({
  *   apiKey: 'YOUR_API_KEY',
@@ -75,34 +191,92 @@ export type GeocoderConfigWithFeatures = {
  * ```
  */
 export class Geocoder {
-  private readonly config: Required<
-    Pick<GeocoderConfig, "apiKey" | "baseUrl" | "timeout">
-  > &
+  private readonly config: Required<Pick<GeocoderConfig, "timeout">> &
     Pick<GeocoderConfig, "language" | "region">;
 
-  private readonly cache: Cache<GeocodeResult[]> | null;
+  private readonly cache: CacheStore<GeocodeResult[]> | null;
+  private readonly ownsCache: boolean;
+  private readonly negativeCache: Cache<GeocodeResult[]> | null;
   private readonly rateLimiter: RateLimiter | null;
+  private readonly transport: Transport;
+  private readonly retryPolicy: RetryPolicy | null;
+  private readonly flights = new SingleFlight<GeocodeResult[]>();
+  private readonly metrics: MetricsRecorder;
+  private readonly onMetricsUpdate: MetricsOptions["onUpdate"];
+  private readonly hooks: GeocoderHooks;
+  private readonly provider: GeocodingProvider;
+  /** Provider name added to cache keys, so backends never share entries */
+  private readonly cacheNamespace: string | undefined;
+  private readonly offlineReverseGeocoder: OfflineReverseGeocoder | undefined;
+  private readonly reverseCache: ReverseCache | null;
+  private readonly normalizeAddress: AddressNormalizer | undefined;
 
   constructor(config: GeocoderConfigWithFeatures) {
-    if (!config.apiKey) {
-      throw new InvalidRequestError("API key is required");
-    }
+    this.provider = config.provider ?? new GoogleProvider(config);
+
+    // Google keys stay unprefixed so existing cache entries remain valid
+    this.cacheNamespace =
+      this.provider instanceof GoogleProvider ? undefined : this.provider.name;
 
     this.config = {
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl ?? DEFAULT_BASE_URL,
       timeout: config.timeout ?? DEFAULT_TIMEOUT,
       language: config.language,
       region: config.region,
     };
 
     // Initialize cache (enabled by default)
-    this.cache =
-      config.cache === false ? null : new Cache<GeocodeResult[]>(config.cache);
+    if (config.cache === false) {
+      this.cache = null;
+    } else if (config.cache && isCacheStore(config.cache)) {
+      this.cache = config.cache;
+    } else {
+      this.cache = new Cache<GeocodeResult[]>(config.cache);
+    }
+
+    this.ownsCache = this.cache instanceof Cache;
+
+    // Initialize negative cache for empty results (opt-in)
+    this.negativeCache =
+      config.cache &&
+      !isCacheStore(config.cache) &&
+      config.cache.negativeTtl !== undefined
+        ? new Cache<GeocodeResult[]>({
+            ttl: config.cache.negativeTtl,
+            maxSize: config.cache.maxSize,
+          })
+        : null;
 
     // Initialize rate limiter (enabled by default)
     this.rateLimiter =
       config.rateLimiter === false ? null : new RateLimiter(config.rateLimiter);
+
+    this.transport = createTransport(config.fetch, config.interceptors);
+
+    // Initialize retry policy (disabled by default)
+    this.retryPolicy =
+      config.retry === undefined || config.retry === false
+        ? null
+        : new RetryPolicy(config.retry === true ? {} : config.retry);
+
+    this.metrics = new MetricsRecorder(config.metrics?.latencyBuckets);
+    this.onMetricsUpdate = config.metrics?.onUpdate;
+    this.hooks = config.hooks ?? {};
+    this.offlineReverseGeocoder = config.offlineReverseGeocoder;
+
+    // Initialize reverse cache snapping (opt-in, needs the cache)
+    this.reverseCache =
+      this.cache && config.reverseCache
+        ? new ReverseCache(config.reverseCache)
+        : null;
+
+    this.normalizeAddress = resolveAddressNormalizer(config.normalizeAddress);
+  }
+
+  /**
+   * Name of the geocoding backend, e.g. "google" or "nominatim"
+   */
+  get providerName(): string {
+    return this.provider.name;
   }
 
   /**
@@ -111,121 +285,122 @@ export class Geocoder {
    * @param options - Geocoding options including the address
    * @returns Array of geocode results (empty array if no results found)
    * @throws {InvalidRequestError} When address is missing or invalid
-   * @throws {ApiKeyError} When API key is invalid or quota exceeded
+   * @throws {ApiKeyError} When API key is invalid
+   * @throws {QuotaExceededError} When the quota is exceeded
    * @throws {NetworkError} On network failures
+   * @throws {AbortError} When `options.signal` is aborted
    */
   async geocode(options: GeocodeOptions): Promise<GeocodeResult[]> {
-    const hasAddress =
-      typeof options.address === "string" && options.address.trim().length > 0;
-    const hasComponents =
-      options.components !== undefined &&
-      options.components !== null &&
-      Object.keys(options.components).length > 0;
-
-    if (!hasAddress && !hasComponents) {
-      throw new InvalidRequestError(
-        "Either address or components is required for geocoding"
-      );
-    }
-
-    const parameters = new URLSearchParams({ key: this.config.apiKey });
-    if (hasAddress) {
-      parameters.set("address", options.address!.trim());
-    }
-
-    // Add optional parameters
-    const language = options.language ?? this.config.language;
-    if (language) {
-      parameters.set("language", language);
-    }
-
-    const region = options.region ?? this.config.region;
-    if (region) {
-      parameters.set("region", region);
-    }
-
-    if (options.components) {
-      const componentString = Object.entries(options.components)
-        .map(([key, value]) => `${key}:${value}`)
-        .join("|");
-      parameters.set("components", componentString);
-    }
-
-    if (options.bounds) {
-      const boundsString = `${options.bounds.southwest.lat},${options.bounds.southwest.lng}|${options.bounds.northeast.lat},${options.bounds.northeast.lng}`;
-      parameters.set("bounds", boundsString);
-    }
-
-    // Create cache key (excluding API key)
-    const cacheKey = createCacheKey({
-      type: "geocode",
-      address: hasAddress ? options.address!.trim() : undefined,
-      language,
-      region,
-      components: options.components,
-      bounds: options.bounds,
-    });
-
-    return this.requestWithCacheAndRateLimit(parameters, cacheKey);
+    return this.requestShared(this.prepareGeocode(options));
   }
 
   /**
    * Reverse geocode coordinates to an address
    *
+   * With an `offlineReverseGeocoder`, lookups restricted to boundary types
+   * it covers are answered locally when it finds a boundary of every type.
+   *
    * @param options - Reverse geocoding options including lat/lng
    * @returns Array of geocode results (empty array if no results found)
    * @throws {InvalidRequestError} When coordinates are invalid
-   * @throws {ApiKeyError} When API key is invalid or quota exceeded
+   * @throws {ApiKeyError} When API key is invalid
+   * @throws {QuotaExceededError} When the quota is exceeded
    * @throws {NetworkError} On network failures
+   * @throws {AbortError} When `options.signal` is aborted
    */
   async reverseGeocode(
     options: ReverseGeocodeOptions
   ): Promise<GeocodeResult[]> {
-    if (!this.isValidLatLng(options.latlng)) {
-      throw new InvalidRequestError(
-        "Valid latitude and longitude are required"
-      );
-    }
-
-    const parameters = new URLSearchParams({
-      latlng: `${options.latlng.lat},${options.latlng.lng}`,
-      key: this.config.apiKey,
-    });
-
-    // Add optional parameters
-    const language = options.language ?? this.config.language;
-    if (language) {
-      parameters.set("language", language);
-    }
+    return (
+      (await this.reverseGeocodeOffline(options)) ??
+      this.requestShared(this.prepareReverseGeocode(options))
+    );
+  }
 
-    if (options.resultType?.length) {
-      parameters.set("result_type", options.resultType.join("|"));
-    }
+  /**
+   * Look up the address of a place ID
+   *
+   * @param placeId - Place ID, e.g. from a stored `GeocodeResult.placeId`
+   * @param options - Language and abort signal
+   * @returns Array of geocode results (empty array if the place ID is unknown)
+   * @throws {InvalidRequestError} When the place ID is empty or rejected by the API
+   * @throws {ApiKeyError} When API key is invalid
+   * @throws {QuotaExceededError} When the quota is exceeded
+   * @throws {NetworkError} On network failures
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async geocodeByPlaceId(
+    placeId: string,
+    options: Omit<PlaceIdOptions, "placeId"> = {}
+  ): Promise<GeocodeResult[]> {
+    return this.requestShared(this.preparePlaceId({ ...options, placeId }));
+  }
 
-    if (options.locationType?.length) {
-      parameters.set("location_type", options.locationType.join("|"));
-    }
+  /**
+   * Geocode many addresses with bounded concurrency
+   *
+   * Identical inputs are requested only once. Each input yields exactly one
+   * record, so a failing row never aborts the rest of the batch.
+   *
+   * @example
+   * ```ts
+   * for await (const item of geocoder.geocodeBatch(rows, { concurrency: 10 })) {
+   *   if (item.error) {
+   *     console.error(item.input.address, item.error.message);
+   *   } else {
+   *     console.log(item.input.address, item.results[0]?.geometry.location);
+   *   }
+   * }
+   * ```
+   */
+  geocodeBatch(
+    inputs: Iterable<GeocodeOptions> | AsyncIterable<GeocodeOptions>,
+    options?: BatchOptions
+  ): AsyncGenerator<BatchResult<GeocodeOptions>> {
+    return runBatch(
+      inputs,
+      this.createBatchExecutor((input: GeocodeOptions) =>
+        this.prepareGeocode(input)
+      ),
+      options
+    );
+  }
 
-    // Create cache key (excluding API key)
-    const cacheKey = createCacheKey({
-      type: "reverse",
-      latlng: options.latlng,
-      language,
-      resultType: options.resultType,
-      locationType: options.locationType,
-    });
+  /**
+   * Reverse geocode many coordinates with bounded concurrency
+   *
+   * @see {@link Geocoder.geocodeBatch}
+   */
+  reverseGeocodeBatch(
+    inputs:
+      | Iterable<ReverseGeocodeOptions>
+      | AsyncIterable<ReverseGeocodeOptions>,
+    options?: BatchOptions
+  ): AsyncGenerator<BatchResult<ReverseGeocodeOptions>> {
+    const execute = this.createBatchExecutor((input: ReverseGeocodeOptions) =>
+      this.prepareReverseGeocode(input)
+    );
 
-    return this.requestWithCacheAndRateLimit(parameters, cacheKey);
+    return runBatch(
+      inputs,
+      async (input) =>
+        (await this.reverseGeocodeOffline(input)) ?? execute(input),
+      options
+    );
   }
 
   /**
    * Get coordinates for an address (convenience method)
    *
    * @param address - The address to geocode
+   * @param options - Optional request options such as an abort signal
    * @returns The coordinates of the first result, or null if no results found
    */
-  async getCoordinates(address: string): Promise<LatLng | null> {
-    const results = await this.geocode({ address });
+  async getCoordinates(
+    address: string,
+    options: RequestOptions = {}
+  ): Promise<LatLng | null> {
+    const results = await this.geocode({ address, signal: options.signal });
 
     if (results.length === 0) {
       return null;
@@ -238,10 +413,17 @@ export class Geocoder {
    * Get formatted address for coordinates (convenience method)
    *
    * @param latlng - The coordinates to reverse geocode
+   * @param options - Optional request options such as an abort signal
    * @returns The formatted address of the first result, or null if no results found
    */
-  async getAddress(latlng: LatLng): Promise<string | null> {
-    const results = await this.reverseGeocode({ latlng });
+  async getAddress(
+    latlng: LatLng,
+    options: RequestOptions = {}
+  ): Promise<string | null> {
+    const results = await this.reverseGeocode({
+      latlng,
+      signal: options.signal,
+    });
 
     if (results.length === 0) {
       return null;
@@ -253,17 +435,45 @@ export class Geocoder {
   /**
    * Clear the geocoding cache
    */
-  clearCache(): void {
-    this.cache?.clear();
+  async clearCache(): Promise<void> {
+    this.negativeCache?.clear();
+    this.reverseCache?.clear();
+    await this.cache?.clear();
   }
 
   /**
    * Get cache statistics
+   *
+   * `size` is the total of `positiveSize` (cached results) and
+   * `negativeSize` (cached empty responses). Evictions and expirations are
+   * only tracked by the built-in in-memory cache. Snapped and nearby hits
+   * are counted when `reverseCache` is configured.
    */
-  getCacheStats(): { size: number; enabled: boolean } {
+  getCacheStats(): {
+    size: number;
+    positiveSize: number;
+    negativeSize: number;
+    enabled: boolean;
+    negativeEnabled: boolean;
+    reverseCacheEnabled: boolean;
+  } & CacheStats &
+    ReverseCacheStats {
+    const positiveSize = this.cache?.size ?? 0;
+    const negativeSize = this.negativeCache?.size ?? 0;
+
     return {
-      size: this.cache?.size ?? 0,
+      size: positiveSize + negativeSize,
+      positiveSize,
+      negativeSize,
       enabled: this.cache !== null,
+      negativeEnabled: this.negativeCache !== null,
+      reverseCacheEnabled: this.reverseCache !== null,
+      ...this.getCacheCounters(),
+      ...(this.reverseCache?.getStats() ?? {
+        snappedHits: 0,
+        nearbyHits: 0,
+        totalSnapDistance: 0,
+      }),
     };
   }
 
@@ -274,194 +484,634 @@ export class Geocoder {
     availableTokens: number;
     queueSize: number;
     enabled: boolean;
-  } {
+  } & RateLimiterStats {
     return {
       availableTokens: this.rateLimiter?.getAvailableTokens() ?? 0,
       queueSize: this.rateLimiter?.getQueueSize() ?? 0,
       enabled: this.rateLimiter !== null,
+      ...this.getRateLimiterCounters(),
     };
   }
 
   /**
-   * Dispose of resources (rate limiter timers)
+   * Get per-key request and quota error counters, in `apiKey` order.
+   * Empty when a custom `auth` strategy or a non-Google provider is used.
+   */
+  getKeyUsage(): KeyUsage[] {
+    return this.provider instanceof GoogleProvider
+      ? this.provider.getKeyUsage()
+      : [];
+  }
+
+  /**
+   * Get a snapshot of all cumulative counters: cache, rate limiter,
+   * requests by status and the request latency histogram
+   *
+   * @see {@link formatPrometheusMetrics} to export the snapshot for Prometheus
+   */
+  getMetrics(): GeocoderMetrics {
+    const { requests, latency, cacheErrors } = this.metrics.getStats();
+
+    return {
+      cache: { ...this.getCacheCounters(), errors: cacheErrors },
+      rateLimiter: this.getRateLimiterCounters(),
+      requests,
+      latency,
+    };
+  }
+
+  /**
+   * Dispose of resources (rate limiter timers and the built-in cache).
+   * Custom cache stores are left untouched since they may be shared.
    */
   dispose(): void {
     this.rateLimiter?.dispose();
-    this.cache?.clear();
+
+    if (this.ownsCache) {
+      this.cache?.clear();
+    }
+
+    this.negativeCache?.clear();
+    this.reverseCache?.clear();
   }
 
   /**
-   * Make request with caching and rate limiting
+   * Combine lookup counters with eviction and expiration counts of the built-in caches
    */
-  private async requestWithCacheAndRateLimit(
-    parameters: URLSearchParams,
-    cacheKey: string
-  ): Promise<GeocodeResult[]> {
-    // Check cache first
-    if (this.cache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
+  private getCacheCounters(): CacheStats {
+    const counters: CacheStats = {
+      ...this.metrics.getStats().cacheLookups,
+      evictions: 0,
+      expirations: 0,
+    };
+
+    for (const cache of [this.cache, this.negativeCache]) {
+      if (cache instanceof Cache) {
+        const stats = cache.getStats();
+        counters.evictions += stats.evictions;
+        counters.expirations += stats.expirations;
       }
     }
 
-    // Apply rate limiting
-    if (this.rateLimiter) {
-      await this.rateLimiter.acquire();
-    }
+    return counters;
+  }
+
+  private getRateLimiterCounters(): RateLimiterStats {
+    return (
+      this.rateLimiter?.getStats() ?? {
+        waits: 0,
+        totalWaitTime: 0,
+        rejections: 0,
+      }
+    );
+  }
 
-    // Make the request
-    const results = await this.request(parameters);
+  /**
+   * Call a lifecycle hook, ignoring errors it throws
+   */
+  private emit<K extends keyof GeocoderHooks>(
+    name: K,
+    event: Parameters<NonNullable<GeocoderHooks[K]>>[0]
+  ): void {
+    const hook = this.hooks[name] as ((event: unknown) => void) | undefined;
 
-    // Cache the results
-    if (this.cache && results.length > 0) {
-      this.cache.set(cacheKey, results);
+    try {
+      hook?.(event);
+    } catch {
+      // Hooks must never break geocoding
     }
+  }
 
-    return results;
+  /**
+   * Record a completed API request and notify the metrics callback
+   */
+  private recordRequest(status: string, duration: number): void {
+    this.metrics.recordRequest(status, duration);
+
+    try {
+      this.onMetricsUpdate?.(this.getMetrics());
+    } catch {
+      // Metrics callbacks must never break geocoding
+    }
   }
 
   /**
-   * Make the API request
+   * Validate geocoding options and build the query and cache key
    */
-  private async request(parameters: URLSearchParams): Promise<GeocodeResult[]> {
-    const url = `${this.config.baseUrl}?${parameters.toString()}`;
+  private prepareGeocode(options: GeocodeOptions): PreparedRequest {
+    const hasAddress =
+      typeof options.address === "string" && options.address.trim().length > 0;
+    const hasComponents =
+      options.components !== undefined &&
+      options.components !== null &&
+      Object.keys(options.components).length > 0;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, this.config.timeout);
+    if (!hasAddress && !hasComponents) {
+      throw new InvalidRequestError(
+        "Either address or components is required for geocoding"
+      );
+    }
 
-    try {
-      const response = await fetch(url, {
-        method: "GET",
-        signal: controller.signal,
-        headers: {
-          Accept: "application/json",
-        },
-      });
+    const address = hasAddress ? options.address!.trim() : undefined;
+    const language = options.language ?? this.config.language;
+    const region = options.region ?? this.config.region;
 
-      if (!response.ok) {
-        throw new NetworkError(
-          `HTTP ${response.status}: ${response.statusText}`
-        );
-      }
+    // Create cache key (excluding API key), normalizing the address if configured
+    const cacheKey = createCacheKey({
+      type: "geocode",
+      provider: this.cacheNamespace,
+      address:
+        address && this.normalizeAddress
+          ? this.normalizeAddress(address, { language, region })
+          : address,
+      language,
+      region,
+      components: options.components,
+      bounds: options.bounds,
+    });
 
-      const data = (await response.json()) as RawGeocodeResponse;
+    return {
+      query: {
+        type: "geocode",
+        address,
+        components: hasComponents ? options.components : undefined,
+        bounds: options.bounds,
+        language,
+        region,
+      },
+      cacheKey,
+      signal: options.signal,
+    };
+  }
 
-      return this.handleResponse(data);
-    } catch (error) {
-      if (error instanceof GeocodingError) {
-        throw error;
-      }
+  /**
+   * Validate place ID options and build the query and cache key
+   */
+  private preparePlaceId(options: PlaceIdOptions): PreparedRequest {
+    const placeId =
+      typeof options.placeId === "string" ? options.placeId.trim() : "";
+    if (!placeId) {
+      throw new InvalidRequestError("Place ID is required");
+    }
 
-      if (error instanceof Error) {
-        if (error.name === "AbortError") {
-          throw new NetworkError("Request timed out", error);
-        }
+    const language = options.language ?? this.config.language;
 
-        throw new NetworkError(`Request failed: ${error.message}`, error);
-      }
+    // Create cache key (excluding API key)
+    const cacheKey = createCacheKey({
+      type: "placeId",
+      provider: this.cacheNamespace,
+      placeId,
+      language,
+    });
 
-      throw new NetworkError("An unknown error occurred");
-    } finally {
-      clearTimeout(timeoutId);
+    return {
+      query: { type: "placeId", placeId, language },
+      cacheKey,
+      signal: options.signal,
+    };
+  }
+
+  /**
+   * Validate reverse geocoding options and build the query and cache key
+   */
+  private prepareReverseGeocode(
+    options: ReverseGeocodeOptions
+  ): PreparedRequest {
+    if (!isValidLatLng(options.latlng)) {
+      throw new InvalidRequestError(
+        "Valid latitude and longitude are required"
+      );
     }
+
+    const language = options.language ?? this.config.language;
+    const parameters = {
+      provider: this.cacheNamespace,
+      language,
+      resultType: options.resultType,
+      locationType: options.locationType,
+    };
+
+    // Create cache key (excluding API key), snapping the coordinates if configured
+    const cacheKey = createCacheKey({
+      type: "reverse",
+      ...parameters,
+      ...(this.reverseCache?.snap(options.latlng) ?? {
+        latlng: options.latlng,
+      }),
+    });
+
+    return {
+      query: {
+        type: "reverse",
+        latlng: options.latlng,
+        resultType: options.resultType,
+        locationType: options.locationType,
+        language,
+      },
+      cacheKey,
+      signal: options.signal,
+      point: this.reverseCache
+        ? { latlng: options.latlng, group: createCacheKey(parameters) }
+        : undefined,
+    };
   }
 
   /**
-   * Handle the API response and throw appropriate errors
+   * Create a batch executor that shares one request between identical inputs
    */
-  private handleResponse(response: RawGeocodeResponse): GeocodeResult[] {
-    switch (response.status) {
-      case "OK": {
-        return response.results.map((r) => this.toGeocodeResult(r));
-      }
+  private createBatchExecutor<T>(
+    prepare: (input: T) => PreparedRequest
+  ): (input: T) => Promise<GeocodeResult[]> {
+    const requests = new Map<string, Promise<GeocodeResult[]>>();
+
+    return async (input) => {
+      const prepared = prepare(input);
+      const { cacheKey } = prepared;
+
+      let request = requests.get(cacheKey);
+      if (!request) {
+        // Settled results are cached, so only in-flight requests are shared
+        const share = async () => {
+          try {
+            return await this.requestShared(prepared);
+          } finally {
+            if (requests.get(cacheKey) === request) {
+              requests.delete(cacheKey);
+            }
+          }
+        };
 
-      case "ZERO_RESULTS": {
-        return [];
+        request = share();
+        requests.set(cacheKey, request);
       }
 
-      case "OVER_DAILY_LIMIT":
-      case "OVER_QUERY_LIMIT": {
-        throw new ApiKeyError(
-          response.error_message ?? "API quota exceeded",
-          response.status
-        );
+      return request;
+    };
+  }
+
+  /**
+   * Make the request, joining an identical request already in flight
+   */
+  private async requestShared({
+    query,
+    cacheKey,
+    signal,
+    point,
+  }: PreparedRequest): Promise<GeocodeResult[]> {
+    return this.flights.run(
+      cacheKey,
+      async (flightSignal) =>
+        this.requestWithCacheAndRateLimit({
+          query,
+          cacheKey,
+          signal: flightSignal,
+          point,
+        }),
+      signal
+    );
+  }
+
+  /**
+   * Make request with caching and rate limiting
+   */
+  private async requestWithCacheAndRateLimit({
+    query,
+    cacheKey,
+    signal,
+    point,
+  }: PreparedRequest): Promise<GeocodeResult[]> {
+    throwIfAborted(signal);
+
+    // Check cache first, then cached points nearby
+    if (this.cache) {
+      let cached =
+        (await this.readCache(this.cache, cacheKey)) ??
+        this.negativeCache?.get(cacheKey);
+      if (cached && point) {
+        this.reverseCache?.recordHit(cacheKey, point.latlng);
       }
 
-      case "REQUEST_DENIED": {
-        throw new ApiKeyError(
-          response.error_message ?? "Request denied - check your API key",
-          response.status
-        );
+      cached ??= point && (await this.getNearby(this.cache, point));
+      this.metrics.recordCacheLookup(cached !== undefined);
+      this.emit(cached ? "onCacheHit" : "onCacheMiss", { cacheKey });
+      if (cached) {
+        return cached;
       }
+    }
 
-      case "INVALID_REQUEST": {
-        throw new InvalidRequestError(
-          response.error_message ?? "Invalid request"
-        );
+    // Make the request, retrying transient failures
+    const startedAt = performance.now();
+    let results: GeocodeResult[];
+    try {
+      results = await this.requestWithRetry(query, cacheKey, signal);
+    } catch (error) {
+      this.emit("onError", {
+        cacheKey,
+        error,
+        duration: performance.now() - startedAt,
+      });
+      throw error;
+    }
+
+    // Cache the results, or the empty response if negative caching is on
+    if (this.cache && results.length > 0) {
+      const cached = await this.writeCache(this.cache, cacheKey, results);
+      if (cached && point) {
+        this.reverseCache?.remember(cacheKey, point.group, point.latlng);
       }
+    } else if (results.length === 0) {
+      this.negativeCache?.set(cacheKey, results);
+    }
 
-      default: {
-        throw new GeocodingError(
-          response.error_message ?? "An unknown error occurred",
-          response.status
-        );
+    return results;
+  }
+
+  /**
+   * Look up coordinates in the offline dataset when it covers every
+   * requested result type
+   * @returns The offline results, or undefined if the API must be asked
+   */
+  private async reverseGeocodeOffline(
+    options: ReverseGeocodeOptions
+  ): Promise<GeocodeResult[] | undefined> {
+    const offline = this.offlineReverseGeocoder;
+    const { resultType = [] } = options;
+    if (!offline || resultType.length === 0) {
+      return undefined;
+    }
+
+    let results: GeocodeResult[];
+    try {
+      if (!(await offline.covers(resultType))) {
+        return undefined;
       }
+
+      results = await offline.reverseGeocode(options);
+    } catch {
+      // The dataset could not be loaded, e.g. a missing file: ask the API
+      return undefined;
+    }
+
+    // A point outside some of the requested boundaries needs the API too
+    const found = new Set(results.flatMap((result) => result.types));
+    return resultType.every((type) => found.has(type)) ? results : undefined;
+  }
+
+  /**
+   * Read a cache entry, treating a failing store as a miss
+   */
+  private async readCache(
+    cache: CacheStore<GeocodeResult[]>,
+    cacheKey: string
+  ): Promise<GeocodeResult[] | undefined> {
+    try {
+      return await cache.get(cacheKey);
+    } catch {
+      this.metrics.recordCacheError();
+      return undefined;
     }
   }
 
-  private toGeocodeResult(raw: RawGeocodeResult): GeocodeResult {
-    return {
-      addressComponents: raw.address_components.map((c) =>
-        this.toAddressComponent(c)
-      ),
-      formattedAddress: raw.formatted_address,
-      geometry: this.toGeometry(raw.geometry),
-      placeId: raw.place_id,
-      plusCode: raw.plus_code ? this.toPlusCode(raw.plus_code) : undefined,
-      postcodeLocalities: raw.postcode_localities,
-      types: raw.types,
-      partialMatch: raw.partial_match,
-    };
+  /**
+   * Write a cache entry, skipping the write if the store fails
+   * @returns Whether the entry was stored
+   */
+  private async writeCache(
+    cache: CacheStore<GeocodeResult[]>,
+    cacheKey: string,
+    results: GeocodeResult[]
+  ): Promise<boolean> {
+    try {
+      await cache.set(cacheKey, results);
+      return true;
+    } catch {
+      this.metrics.recordCacheError();
+      return false;
+    }
   }
 
-  private toAddressComponent(raw: RawAddressComponent) {
-    return {
-      longName: raw.long_name,
-      shortName: raw.short_name,
-      types: raw.types,
+  /**
+   * Get the cached results of the nearest point within the reverse cache radius
+   */
+  private async getNearby(
+    cache: CacheStore<GeocodeResult[]>,
+    point: ReversePoint
+  ): Promise<GeocodeResult[] | undefined> {
+    const cacheKeys =
+      this.reverseCache?.findNearby(point.group, point.latlng) ?? [];
+
+    // Read the candidates one by one, nearest first, until one is still cached
+    const read = async (
+      index: number
+    ): Promise<GeocodeResult[] | undefined> => {
+      if (index === cacheKeys.length) {
+        return undefined;
+      }
+
+      const cacheKey = cacheKeys[index];
+      const cached = await this.readCache(cache, cacheKey);
+      if (cached) {
+        this.reverseCache?.recordNearbyHit(cacheKey, point.latlng);
+        return cached;
+      }
+
+      // The entry expired or was evicted
+      this.reverseCache?.forget(cacheKey);
+      return read(index + 1);
     };
+
+    return read(0);
   }
 
-  private toGeometry(raw: RawGeometry) {
-    return {
-      location: raw.location,
-      locationType: raw.location_type,
-      viewport: raw.viewport,
-      bounds: raw.bounds,
+  /**
+   * Make rate-limited requests until one succeeds or the retry policy gives up
+   */
+  private async requestWithRetry(
+    query: GeocodingQuery,
+    cacheKey: string,
+    signal?: AbortSignal
+  ): Promise<GeocodeResult[]> {
+    // Requests that ran out of quota, so every credential is tried at most once
+    const exhausted = new Set<string>();
+
+    const send = async (
+      attempt: number,
+      failovers: number
+    ): Promise<GeocodeResult[]> => {
+      // Apply rate limiting to every attempt
+      await this.acquireRateLimit(cacheKey, signal);
+
+      // Build the request for every attempt, since credentials may change
+      const request = this.provider.createRequest(query);
+
+      try {
+        return await this.request(request, { cacheKey, attempt, signal });
+      } catch (error) {
+        if (error instanceof GeocodingError) {
+          error.attempts = attempt;
+        }
+
+        // Fail over to other credentials without counting a retry, until
+        // credentials that already ran out of quota come back, e.g. when
+        // every key of the pool was tried or keys recover immediately
+        if (
+          error instanceof QuotaExceededError &&
+          !exhausted.has(request.url.href) &&
+          this.provider.onQuotaExceeded?.(request.url, error.status)
+        ) {
+          exhausted.add(request.url.href);
+          return send(attempt + 1, failovers + 1);
+        }
+
+        const delay = this.retryPolicy?.getDelay(error, attempt - failovers);
+        if (delay === undefined) {
+          throw error;
+        }
+
+        this.emit("onRetry", {
+          url: sanitizeUrl(request.url.toString()),
+          cacheKey,
+          attempt,
+          delay,
+          error,
+        });
+
+        await sleep(delay, signal);
+        return send(attempt + 1, failovers);
+      }
     };
+
+    return send(1, 0);
   }
 
-  private toPlusCode(raw: RawPlusCode) {
-    return {
-      globalCode: raw.global_code,
-      compoundCode: raw.compound_code,
-    };
+  /**
+   * Wait for a rate limiter token, reporting waits to the `onRateLimited` hook
+   */
+  private async acquireRateLimit(
+    cacheKey: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.rateLimiter || this.rateLimiter.tryAcquire()) {
+      return;
+    }
+
+    const startedAt = performance.now();
+    await this.rateLimiter.acquire(signal);
+    this.emit("onRateLimited", {
+      cacheKey,
+      waitTime: performance.now() - startedAt,
+    });
   }
 
   /**
-   * Validate latitude/longitude coordinates
+   * Make the API request, aborting on timeout or when the caller's signal fires
    */
-  private isValidLatLng(latlng: LatLng): boolean {
-    return (
-      typeof latlng?.lat === "number" &&
-      typeof latlng?.lng === "number" &&
-      latlng.lat >= -90 &&
-      latlng.lat <= 90 &&
-      latlng.lng >= -180 &&
-      latlng.lng <= 180
-    );
+  private async request(
+    { url: requestUrl, headers }: ProviderRequest,
+    { cacheKey, attempt, signal }: Attempt
+  ): Promise<GeocodeResult[]> {
+    const url = requestUrl.toString();
+    const sanitizedUrl = sanitizeUrl(url);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, this.config.timeout);
+    const onAbort = () => {
+      controller.abort();
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const startedAt = performance.now();
+    let outcome = "NETWORK_ERROR";
+    let httpStatus: number | undefined;
+
+    this.emit("onRequest", { url: sanitizedUrl, cacheKey, attempt });
+
+    try {
+      const response = await this.transport({
+        url,
+        init: {
+          method: "GET",
+          signal: controller.signal,
+          headers: {
+            Accept: "application/json",
+            ...headers,
+          },
+        },
+      });
+
+      httpStatus = response.status;
+
+      if (!response.ok) {
+        outcome = `HTTP_${response.status}`;
+        throw new NetworkError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          undefined,
+          {
+            httpStatus: response.status,
+            url: sanitizedUrl,
+            retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+          }
+        );
+      }
+
+      const body = await response.text();
+      const { status, results } = this.provider.parseResponse(body, {
+        httpStatus,
+        url: sanitizedUrl,
+      });
+      outcome = status;
+
+      return results;
+    } catch (error) {
+      if (error instanceof ResponseParseError) {
+        outcome = "INVALID_RESPONSE";
+      } else if (error instanceof GeocodingError && error.status) {
+        outcome = error.status;
+      }
+
+      if (error instanceof GeocodingError) {
+        error.url ??= sanitizedUrl;
+        throw error;
+      }
+
+      // Cancelled by the caller rather than by the timeout
+      if (signal?.aborted) {
+        outcome = "ABORTED";
+        throwIfAborted(signal);
+      }
+
+      if (error instanceof Error) {
+        if (error.name === "AbortError") {
+          outcome = "TIMEOUT";
+          throw new TimeoutError(this.config.timeout, error, {
+            url: sanitizedUrl,
+          });
+        }
+
+        throw new NetworkError(`Request failed: ${error.message}`, error, {
+          url: sanitizedUrl,
+        });
+      }
+
+      throw new NetworkError("An unknown error occurred", undefined, {
+        url: sanitizedUrl,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+      const duration = performance.now() - startedAt;
+      this.recordRequest(outcome, duration);
+      this.emit("onResponse", {
+        url: sanitizedUrl,
+        cacheKey,
+        attempt,
+        status: outcome,
+        httpStatus,
+        duration,
+      });
+    }
   }
 }
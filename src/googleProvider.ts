@@ -0,0 +1,230 @@
+import type {
+  GeocoderConfig,
+  GeocodeResult,
+  GeocodingStatus,
+  RawAddressComponent,
+  RawGeocodeResult,
+  RawGeometry,
+  RawPlusCode,
+} from "./types.js";
+import { createStatusError, type GeocodingErrorDetails } from "./errors.js";
+import type { KeyPool, KeyPoolOptions, KeyUsage } from "./keyPool.js";
+import { ApiKeyAuth, createKeyPool, type AuthStrategy } from "./auth.js";
+import { parseGeocodeResponse } from "./validation.js";
+import type {
+  GeocodingProvider,
+  GeocodingQuery,
+  ProviderRequest,
+  ProviderResponse,
+} from "./provider.js";
+
+const DEFAULT_BASE_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+
+/**
+ * Configuration options for the Google provider
+ */
+export type GoogleProviderConfig = {
+  /** Quarantine cooldowns for keys that run out of quota, when `apiKey` lists several keys */
+  keyPool?: KeyPoolOptions;
+} & Pick<
+  GeocoderConfig,
+  "apiKey" | "auth" | "channel" | "baseUrl" | "responseValidation"
+>;
+
+/**
+ * Google Geocoding API backend, used by `Geocoder` unless another provider is given
+ *
+ * @example
+ * ```ts
+ * const geocoder = new Geocoder({
+ *   provider: new GoogleProvider({ apiKey: ['KEY_A', 'KEY_B'], channel: 'checkout' }),
+ * });
+ * ```
+ */
+export class GoogleProvider implements GeocodingProvider {
+  private readonly baseUrl: string;
+  private readonly channel: string | undefined;
+  private readonly lenient: boolean;
+  private readonly keyPool: KeyPool | null;
+  private readonly auth: AuthStrategy;
+
+  /**
+   * @throws {InvalidRequestError} When neither `auth` nor a valid `apiKey` is given
+   */
+  constructor(config: GoogleProviderConfig) {
+    // Authenticate with the given strategy, or with API keys
+    if (config.auth) {
+      this.keyPool = null;
+      this.auth = config.auth;
+    } else {
+      this.keyPool = createKeyPool(config, config.keyPool);
+      this.auth = new ApiKeyAuth(this.keyPool);
+    }
+
+    this.baseUrl = config.baseUrl ?? DEFAULT_BASE_URL;
+    this.channel = config.channel;
+    this.lenient = config.responseValidation === "lenient";
+  }
+
+  get name(): string {
+    return "google";
+  }
+
+  /**
+   * Get per-key request and quota error counters, in `apiKey` order.
+   * Empty when a custom `auth` strategy is used.
+   */
+  getKeyUsage(): KeyUsage[] {
+    return this.keyPool?.getUsage() ?? [];
+  }
+
+  /**
+   * Build an authorized request URL
+   */
+  createRequest(query: GeocodingQuery): ProviderRequest {
+    const url = new URL(this.baseUrl);
+    for (const [name, value] of this.toParameters(query)) {
+      url.searchParams.set(name, value);
+    }
+
+    if (this.channel) {
+      url.searchParams.set("channel", this.channel);
+    }
+
+    this.auth.authorize(url);
+
+    return { url };
+  }
+
+  /**
+   * Map a Geocoding API response, throwing for error statuses
+   */
+  parseResponse(
+    body: string,
+    details: GeocodingErrorDetails
+  ): ProviderResponse {
+    const response = parseGeocodeResponse(body, { lenient: this.lenient });
+
+    switch (response.status) {
+      case "OK": {
+        return {
+          status: response.status,
+          results: response.results.map((r) => this.toGeocodeResult(r)),
+        };
+      }
+
+      case "ZERO_RESULTS": {
+        return { status: response.status, results: [] };
+      }
+
+      default: {
+        throw createStatusError(
+          response.status,
+          response.error_message,
+          details
+        );
+      }
+    }
+  }
+
+  /**
+   * Let the auth strategy switch to other credentials
+   */
+  onQuotaExceeded(url: URL, status: GeocodingStatus): boolean {
+    return this.auth.onQuotaExceeded?.(url, status) ?? false;
+  }
+
+  private toParameters(query: GeocodingQuery): URLSearchParams {
+    const parameters = new URLSearchParams();
+
+    switch (query.type) {
+      case "geocode": {
+        if (query.address) {
+          parameters.set("address", query.address);
+        }
+
+        if (query.region) {
+          parameters.set("region", query.region);
+        }
+
+        if (query.components) {
+          const componentString = Object.entries(query.components)
+            .map(([key, value]) => `${key}:${value}`)
+            .join("|");
+          parameters.set("components", componentString);
+        }
+
+        if (query.bounds) {
+          const boundsString = `${query.bounds.southwest.lat},${query.bounds.southwest.lng}|${query.bounds.northeast.lat},${query.bounds.northeast.lng}`;
+          parameters.set("bounds", boundsString);
+        }
+
+        break;
+      }
+
+      case "reverse": {
+        parameters.set("latlng", `${query.latlng.lat},${query.latlng.lng}`);
+
+        if (query.resultType?.length) {
+          parameters.set("result_type", query.resultType.join("|"));
+        }
+
+        if (query.locationType?.length) {
+          parameters.set("location_type", query.locationType.join("|"));
+        }
+
+        break;
+      }
+
+      case "placeId": {
+        parameters.set("place_id", query.placeId);
+        break;
+      }
+    }
+
+    if (query.language) {
+      parameters.set("language", query.language);
+    }
+
+    return parameters;
+  }
+
+  private toGeocodeResult(raw: RawGeocodeResult): GeocodeResult {
+    return {
+      addressComponents: raw.address_components.map((c) =>
+        this.toAddressComponent(c)
+      ),
+      formattedAddress: raw.formatted_address,
+      geometry: this.toGeometry(raw.geometry),
+      placeId: raw.place_id,
+      plusCode: raw.plus_code ? this.toPlusCode(raw.plus_code) : undefined,
+      postcodeLocalities: raw.postcode_localities,
+      types: raw.types,
+      partialMatch: raw.partial_match,
+    };
+  }
+
+  private toAddressComponent(raw: RawAddressComponent) {
+    return {
+      longName: raw.long_name,
+      shortName: raw.short_name,
+      types: raw.types,
+    };
+  }
+
+  private toGeometry(raw: RawGeometry) {
+    return {
+      location: raw.location,
+      locationType: raw.location_type,
+      viewport: raw.viewport,
+      bounds: raw.bounds,
+    };
+  }
+
+  private toPlusCode(raw: RawPlusCode) {
+    return {
+      globalCode: raw.global_code,
+      compoundCode: raw.compound_code,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { sanitizeUrl } from "./hooks.js";
+
+describe("sanitizeUrl", () => {
+  it("should redact the API key", () => {
+    assert.strictEqual(
+      sanitizeUrl("https://example.com/geocode?address=Paris&key=secret"),
+      "https://example.com/geocode?address=Paris&key=REDACTED"
+    );
+  });
+
+  it("should redact the client ID and signature", () => {
+    assert.strictEqual(
+      sanitizeUrl(
+        "https://example.com/geocode?address=Paris&client=gme-acme&signature=abc="
+      ),
+      "https://example.com/geocode?address=Paris&client=REDACTED&signature=REDACTED"
+    );
+  });
+
+  it("should leave URLs without credentials unchanged", () => {
+    assert.strictEqual(
+      sanitizeUrl("https://example.com/geocode?address=Paris"),
+      "https://example.com/geocode?address=Paris"
+    );
+    assert.strictEqual(
+      sanitizeUrl("https://example.com/geocode"),
+      "https://example.com/geocode"
+    );
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Emitted before an API request is sent
+ */
+export type RequestEvent = {
+  /** Request URL with credentials redacted */
+  url: string;
+  cacheKey: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+};
+
+/**
+ * Emitted when an API request completes, successfully or not
+ */
+export type ResponseEvent = RequestEvent & {
+  /**
+   * Outcome: the Geocoding API status, `HTTP_<code>` for non-2xx responses,
+   * `INVALID_RESPONSE`, `TIMEOUT`, `ABORTED` or `NETWORK_ERROR`
+   */
+  status: string;
+  /** HTTP status code, when the server responded */
+  httpStatus?: number;
+  /** Request duration in milliseconds */
+  duration: number;
+};
+
+/**
+ * Emitted on cache lookups
+ */
+export type CacheEvent = {
+  cacheKey: string;
+};
+
+/**
+ * Emitted after a request had to wait for the rate limiter
+ */
+export type RateLimitedEvent = {
+  cacheKey: string;
+  /** Time spent waiting, in milliseconds */
+  waitTime: number;
+};
+
+/**
+ * Emitted before a failed attempt is retried
+ */
+export type RetryEvent = RequestEvent & {
+  /** Delay before the next attempt, in milliseconds */
+  delay: number;
+  /** Error thrown by the failed attempt */
+  error: unknown;
+};
+
+/**
+ * Emitted when a geocoding call fails after all retries
+ */
+export type RequestErrorEvent = {
+  cacheKey: string;
+  error: unknown;
+  /** Total call duration in milliseconds, including retries */
+  duration: number;
+};
+
+/**
+ * Lifecycle hooks for tracing and logging. Errors thrown by hooks are ignored.
+ */
+export type GeocoderHooks = {
+  onRequest?: (event: RequestEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onCacheHit?: (event: CacheEvent) => void;
+  onCacheMiss?: (event: CacheEvent) => void;
+  onRateLimited?: (event: RateLimitedEvent) => void;
+  onRetry?: (event: RetryEvent) => void;
+  onError?: (event: RequestErrorEvent) => void;
+};
+
+/**
+ * Query parameters that carry credentials
+ */
+const SENSITIVE_PARAMETERS = ["key", "client", "signature"];
+
+/**
+ * Redact credentials from a request URL so it can be logged safely
+ */
+export function sanitizeUrl(url: string): string {
+  const [base, query] = url.split("?", 2);
+  if (query === undefined) {
+    return url;
+  }
+
+  const parameters = new URLSearchParams(query);
+  for (const name of SENSITIVE_PARAMETERS) {
+    if (parameters.has(name)) {
+      parameters.set(name, "REDACTED");
+    }
+  }
+
+  return `${base}?${parameters.toString()}`;
+}
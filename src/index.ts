@@ -6,35 +6,219 @@
 // Main geocoder
 export { Geocoder, type GeocoderConfigWithFeatures } from "./geocoder.js";
 
+// Providers
+export {
+  type GeocodingProvider,
+  type GeocodingQuery,
+  type ProviderRequest,
+  type ProviderResponse,
+} from "./provider.js";
+export { GoogleProvider, type GoogleProviderConfig } from "./googleProvider.js";
+export {
+  NominatimProvider,
+  type NominatimProviderConfig,
+} from "./nominatimProvider.js";
+
+// Fallback
+export {
+  FallbackGeocoder,
+  type FallbackEvent,
+  type FallbackGeocodeResult,
+  type FallbackGeocoderOptions,
+  type FallbackReason,
+  type FallbackRules,
+} from "./fallbackGeocoder.js";
+
+// Offline reverse geocoding
+export {
+  OfflineReverseGeocoder,
+  type BoundaryComponent,
+  type OfflineReverseGeocoderOptions,
+} from "./offlineReverseGeocoder.js";
+
+// Address validation
+export {
+  AddressValidator,
+  type AddressValidatorConfig,
+} from "./addressValidator.js";
+
+// Time zone and elevation
+export {
+  TimeZoneClient,
+  geocodeWithTimezone,
+  type TimeZoneClientConfig,
+  type GeocodeResultWithTimeZone,
+} from "./timeZoneClient.js";
+export {
+  ElevationClient,
+  type ElevationClientConfig,
+} from "./elevationClient.js";
+export {
+  WebServiceClient,
+  type WebServiceClientConfig,
+  type WebServiceResponse,
+} from "./webServiceClient.js";
+
 // Errors
 export {
+  AbortError,
   GeocodingError,
   ApiKeyError,
+  QuotaExceededError,
   InvalidRequestError,
   NetworkError,
+  TimeoutError,
+  ResponseParseError,
+  RETRYABLE_HTTP_STATUSES,
+  RETRYABLE_STATUSES,
+  type GeocodingErrorDetails,
+  type NetworkErrorDetails,
 } from "./errors.js";
 
+// Address components
+export {
+  findComponent,
+  getComponent,
+  isAddressType,
+  toStructuredAddress,
+  type ComponentNameForm,
+  type StructuredAddress,
+} from "./addressComponents.js";
+
+// Address normalization
+export {
+  createAddressNormalizer,
+  defaultAddressNormalizer,
+  normalizeUnicode,
+  caseFold,
+  stripPunctuation,
+  collapseWhitespace,
+  expandAbbreviations,
+  DEFAULT_ABBREVIATIONS,
+  type AddressNormalizer,
+  type AddressNormalizationContext,
+  type AbbreviationTables,
+} from "./addressNormalizer.js";
+
 // Cache
-export { Cache, createCacheKey, type CacheOptions } from "./cache.js";
+export {
+  Cache,
+  createCacheKey,
+  type CacheOptions,
+  type CacheStore,
+  type CacheStats,
+  type Awaitable,
+} from "./cache.js";
+export {
+  RedisCacheStore,
+  type RedisCacheStoreOptions,
+  type RedisCommandClient,
+} from "./redisCacheStore.js";
+export {
+  FileCacheStore,
+  type FileCacheStoreOptions,
+} from "./fileCacheStore.js";
+export {
+  ReverseCache,
+  encodeGeohash,
+  distanceInMeters,
+  type ReverseCacheOptions,
+  type ReverseCacheStats,
+} from "./reverseCache.js";
 
 // Rate limiter
 export {
   RateLimiter,
   RateLimitError,
   type RateLimiterOptions,
+  type RateLimiterStats,
 } from "./rateLimiter.js";
 
+// Metrics
+export {
+  formatPrometheusMetrics,
+  DEFAULT_LATENCY_BUCKETS,
+  type GeocoderMetrics,
+  type LatencyHistogram,
+  type MetricsOptions,
+} from "./metrics.js";
+
+// Authentication
+export {
+  ApiKeyAuth,
+  ClientIdAuth,
+  signUrl,
+  type AuthStrategy,
+  type ClientIdCredentials,
+} from "./auth.js";
+
+// Key pool
+export { KeyPool, type KeyPoolOptions, type KeyUsage } from "./keyPool.js";
+
+// Hooks
+export {
+  sanitizeUrl,
+  type GeocoderHooks,
+  type RequestEvent,
+  type ResponseEvent,
+  type CacheEvent,
+  type RateLimitedEvent,
+  type RetryEvent,
+  type RequestErrorEvent,
+} from "./hooks.js";
+
+// Single-flight
+export { SingleFlight } from "./singleFlight.js";
+
+// Batch
+export { type BatchOptions, type BatchResult } from "./batch.js";
+
+// Retry
+export { RetryPolicy, type RetryOptions } from "./retry.js";
+
+// Transport
+export { createTransport, type Transport } from "./transport.js";
+
 // Types
 export type {
   GeocoderConfig,
+  FetchFunction,
+  TransportRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  Interceptors,
   GeocodeOptions,
   ReverseGeocodeOptions,
+  PlaceIdOptions,
+  RequestOptions,
   LatLng,
   LocationType,
+  AddressType,
+  ResultType,
   GeocodingStatus,
   AddressComponent,
   Geometry,
   PlusCode,
   GeocodeResult,
   GeocodeResponse,
+  AddressValidationOptions,
+  AddressValidationResult,
+  AddressValidationVerdict,
+  AddressValidationGeocode,
+  ValidationGranularity,
+  ConfirmationLevel,
+  ValidatedAddress,
+  ValidatedAddressComponent,
+  PostalAddress,
+  AddressMetadata,
+  UspsAddress,
+  UspsData,
+  TimeZoneOptions,
+  TimeZoneResult,
+  ElevationOptions,
+  ElevationResult,
+  GeoJsonPosition,
+  GeoJsonGeometry,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
 } from "./types.js";
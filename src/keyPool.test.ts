@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { KeyPool } from "./keyPool.js";
+
+describe("KeyPool", () => {
+  it("should require at least one key", () => {
+    assert.throws(() => new KeyPool([]));
+  });
+
+  it("should keep using the same key", () => {
+    const pool = new KeyPool(["key-a", "key-b"]);
+
+    assert.strictEqual(pool.acquire(), "key-a");
+    assert.strictEqual(pool.acquire(), "key-a");
+  });
+
+  it("should fail over to the next key on quota errors", () => {
+    const pool = new KeyPool(["key-a", "key-b", "key-c"]);
+
+    assert.strictEqual(pool.acquire(), "key-a");
+    assert.strictEqual(
+      pool.reportQuotaExceeded("key-a", "OVER_QUERY_LIMIT"),
+      true
+    );
+    assert.strictEqual(pool.acquire(), "key-b");
+    assert.strictEqual(
+      pool.reportQuotaExceeded("key-b", "OVER_DAILY_LIMIT"),
+      true
+    );
+    assert.strictEqual(pool.acquire(), "key-c");
+  });
+
+  it("should report when no other key is available", () => {
+    const pool = new KeyPool(["key-a", "key-b"]);
+
+    pool.reportQuotaExceeded("key-a", "OVER_QUERY_LIMIT");
+    assert.strictEqual(
+      pool.reportQuotaExceeded("key-b", "OVER_QUERY_LIMIT"),
+      false
+    );
+  });
+
+  it("should use the key that recovers first when all are quarantined", () => {
+    const pool = new KeyPool(["key-a", "key-b"], {
+      cooldown: 1000,
+      dailyLimitCooldown: 60_000,
+    });
+
+    pool.reportQuotaExceeded("key-a", "OVER_DAILY_LIMIT");
+    pool.reportQuotaExceeded("key-b", "OVER_QUERY_LIMIT");
+
+    assert.strictEqual(pool.acquire(), "key-b");
+  });
+
+  it("should return keys to service after the cooldown", () => {
+    let now = 0;
+    const pool = new KeyPool(["key-a", "key-b"], {
+      cooldown: 1000,
+      now: () => now,
+    });
+
+    pool.reportQuotaExceeded("key-a", "OVER_QUERY_LIMIT");
+    assert.strictEqual(pool.acquire(), "key-b");
+
+    pool.reportQuotaExceeded("key-b", "OVER_QUERY_LIMIT");
+    now += 1001;
+    assert.strictEqual(pool.acquire(), "key-b");
+    assert.strictEqual(pool.getUsage()[0].available, true);
+  });
+
+  it("should report masked per-key usage", () => {
+    const pool = new KeyPool(["AIzaSyA-first", "AIzaSyB-second"]);
+
+    pool.acquire();
+    pool.acquire();
+    pool.reportQuotaExceeded("AIzaSyA-first", "OVER_QUERY_LIMIT");
+    pool.acquire();
+
+    const [first, second] = pool.getUsage();
+    assert.strictEqual(first.key, "****irst");
+    assert.strictEqual(first.requests, 2);
+    assert.strictEqual(first.quotaErrors, 1);
+    assert.strictEqual(first.available, false);
+    assert.ok(first.quarantinedUntil! > Date.now());
+    assert.deepStrictEqual(second, {
+      key: "****cond",
+      requests: 1,
+      quotaErrors: 0,
+      available: true,
+      quarantinedUntil: undefined,
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { GeocodingStatus } from "./types.js";
+
+/**
+ * API key pool options
+ */
+export type KeyPoolOptions = {
+  /** How long a key is skipped after `OVER_QUERY_LIMIT`, in milliseconds (default: 1 minute) */
+  cooldown?: number;
+  /** How long a key is skipped after `OVER_DAILY_LIMIT`, in milliseconds (default: 1 hour) */
+  dailyLimitCooldown?: number;
+  /** Clock returning the current time in milliseconds (default: `Date.now`) */
+  now?: () => number;
+};
+
+/**
+ * Usage counters of a single API key
+ */
+export type KeyUsage = {
+  /** The API key with all but its last 4 characters masked */
+  key: string;
+  /** Requests sent with this key */
+  requests: number;
+  /** Quota errors returned for this key */
+  quotaErrors: number;
+  /** Whether the key is currently used for requests */
+  available: boolean;
+  /** Time the quarantine ends, in milliseconds since the epoch */
+  quarantinedUntil?: number;
+};
+
+type KeyState = {
+  key: string;
+  requests: number;
+  quotaErrors: number;
+  quarantinedUntil: number;
+};
+
+/**
+ * Pool of API keys with failover on quota errors
+ *
+ * Requests use the same key until it runs out of quota. The key is then
+ * quarantined for a cooldown and the next available key takes over. When
+ * every key is quarantined, the key whose quarantine ends first is used.
+ *
+ * @example
+ * ```ts
+ * const pool = new KeyPool(['KEY_A', 'KEY_B'], { cooldown: 30_000 });
+ *
+ * const key = pool.acquire();
+ * // ...on OVER_QUERY_LIMIT:
+ * if (pool.reportQuotaExceeded(key, 'OVER_QUERY_LIMIT')) {
+ *   // Retry with pool.acquire()
+ * }
+ * ```
+ */
+export class KeyPool {
+  private readonly keys: KeyState[];
+  private readonly cooldown: number;
+  private readonly dailyLimitCooldown: number;
+  private readonly now: () => number;
+  private current = 0;
+
+  constructor(keys: string[], options: KeyPoolOptions = {}) {
+    if (keys.length === 0) {
+      throw new Error("KeyPool requires at least one key");
+    }
+
+    this.keys = keys.map((key) => ({
+      key,
+      requests: 0,
+      quotaErrors: 0,
+      quarantinedUntil: 0,
+    }));
+    this.cooldown = options.cooldown ?? 60 * 1000; // 1 minute default
+    this.dailyLimitCooldown = options.dailyLimitCooldown ?? 60 * 60 * 1000; // 1 hour default
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Get the number of keys in the pool
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Get the key to use for the next request and count the request
+   */
+  acquire(): string {
+    const now = this.now();
+    let index = this.findAvailable(now);
+
+    // Every key is quarantined: use the one that recovers first
+    if (index === -1) {
+      index = this.keys.reduce(
+        (best, state, i) =>
+          state.quarantinedUntil < this.keys[best].quarantinedUntil ? i : best,
+        0
+      );
+    }
+
+    this.current = index;
+    const state = this.keys[index];
+    state.requests++;
+
+    return state.key;
+  }
+
+  /**
+   * Quarantine a key that ran out of quota
+   * @returns True if another key is available to retry with
+   */
+  reportQuotaExceeded(key: string, status: GeocodingStatus): boolean {
+    const state = this.keys.find((candidate) => candidate.key === key);
+    if (state) {
+      const cooldown =
+        status === "OVER_DAILY_LIMIT" ? this.dailyLimitCooldown : this.cooldown;
+      state.quotaErrors++;
+      state.quarantinedUntil = this.now() + cooldown;
+    }
+
+    return this.findAvailable(this.now()) !== -1;
+  }
+
+  /**
+   * Get usage counters for every key, in pool order
+   */
+  getUsage(): KeyUsage[] {
+    const now = this.now();
+
+    return this.keys.map((state) => ({
+      key: maskKey(state.key),
+      requests: state.requests,
+      quotaErrors: state.quotaErrors,
+      available: state.quarantinedUntil <= now,
+      quarantinedUntil:
+        state.quarantinedUntil > now ? state.quarantinedUntil : undefined,
+    }));
+  }
+
+  /**
+   * Find the first available key, starting from the current one
+   */
+  private findAvailable(now: number): number {
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const index = (this.current + offset) % this.keys.length;
+      if (this.keys[index].quarantinedUntil <= now) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+}
+
+/**
+ * Mask all but the last 4 characters of a key
+ */
+function maskKey(key: string): string {
+  return key.length <= 4 ? "****" : `****${key.slice(-4)}`;
+}
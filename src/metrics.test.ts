@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { MetricsRecorder, formatPrometheusMetrics } from "./metrics.js";
+
+describe("MetricsRecorder", () => {
+  it("should count requests by status", () => {
+    const recorder = new MetricsRecorder();
+
+    recorder.recordRequest("OK", 10);
+    recorder.recordRequest("OK", 20);
+    recorder.recordRequest("HTTP_503", 30);
+
+    const { requests } = recorder.getStats();
+    assert.strictEqual(requests.total, 3);
+    assert.deepStrictEqual(requests.byStatus, { OK: 2, HTTP_503: 1 });
+  });
+
+  it("should build a cumulative latency histogram", () => {
+    const recorder = new MetricsRecorder([100, 10, 50]);
+
+    recorder.recordRequest("OK", 5);
+    recorder.recordRequest("OK", 40);
+    recorder.recordRequest("OK", 75);
+    recorder.recordRequest("OK", 500);
+
+    const { latency } = recorder.getStats();
+    assert.deepStrictEqual(latency.buckets, [
+      { le: 10, count: 1 },
+      { le: 50, count: 2 },
+      { le: 100, count: 3 },
+    ]);
+    assert.strictEqual(latency.sum, 620);
+    assert.strictEqual(latency.count, 4);
+  });
+
+  it("should count cache lookups", () => {
+    const recorder = new MetricsRecorder();
+
+    recorder.recordCacheLookup(true);
+    recorder.recordCacheLookup(false);
+    recorder.recordCacheLookup(false);
+
+    assert.deepStrictEqual(recorder.getStats().cacheLookups, {
+      hits: 1,
+      misses: 2,
+    });
+  });
+});
+
+describe("formatPrometheusMetrics", () => {
+  it("should format counters and the latency histogram", () => {
+    const recorder = new MetricsRecorder([100]);
+    recorder.recordRequest("OK", 50);
+    recorder.recordRequest("ZERO_RESULTS", 150);
+
+    const { requests, latency } = recorder.getStats();
+
+    const text = formatPrometheusMetrics({
+      cache: { hits: 3, misses: 2, evictions: 1, expirations: 0, errors: 1 },
+      rateLimiter: { waits: 4, totalWaitTime: 120, rejections: 0 },
+      requests,
+      latency,
+    });
+
+    assert.ok(text.includes("# TYPE geocoder_cache_hits_total counter"));
+    assert.ok(text.includes("geocoder_cache_hits_total 3\n"));
+    assert.ok(text.includes("geocoder_cache_errors_total 1\n"));
+    assert.ok(text.includes("geocoder_rate_limiter_waits_total 4\n"));
+    assert.ok(text.includes('geocoder_requests_total{status="OK"} 1\n'));
+    assert.ok(
+      text.includes(
+        'geocoder_request_duration_milliseconds_bucket{le="100"} 1\n'
+      )
+    );
+    assert.ok(
+      text.includes(
+        'geocoder_request_duration_milliseconds_bucket{le="+Inf"} 2\n'
+      )
+    );
+    assert.ok(
+      text.includes("geocoder_request_duration_milliseconds_sum 200\n")
+    );
+    assert.ok(text.endsWith("\n"));
+  });
+
+  it("should use a custom prefix", () => {
+    const { requests, latency } = new MetricsRecorder().getStats();
+
+    const text = formatPrometheusMetrics(
+      {
+        cache: {
+          hits: 0,
+          misses: 0,
+          evictions: 0,
+          expirations: 0,
+          errors: 0,
+        },
+        rateLimiter: { waits: 0, totalWaitTime: 0, rejections: 0 },
+        requests,
+        latency,
+      },
+      "maps"
+    );
+
+    assert.ok(text.includes("maps_cache_hits_total 0"));
+    assert.ok(!text.includes("geocoder_"));
+  });
+});
@@ -0,0 +1,220 @@
+import type { CacheStats } from "./cache.js";
+import type { RateLimiterStats } from "./rateLimiter.js";
+
+/**
+ * Default latency histogram bucket upper bounds, in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  25, 50, 100, 250, 500, 1000, 2500, 5000, 10_000,
+];
+
+/**
+ * Metrics options
+ */
+export type MetricsOptions = {
+  /** Latency histogram bucket upper bounds in milliseconds (default: 25ms to 10s) */
+  latencyBuckets?: number[];
+  /** Called with a fresh snapshot after every API request. Errors it throws are ignored. */
+  onUpdate?: (metrics: GeocoderMetrics) => void;
+};
+
+/**
+ * Cumulative latency histogram. Bucket counts are cumulative, as in Prometheus.
+ */
+export type LatencyHistogram = {
+  buckets: Array<{ le: number; count: number }>;
+  /** Sum of all observed latencies in milliseconds */
+  sum: number;
+  /** Number of observations */
+  count: number;
+};
+
+/**
+ * Snapshot of all cumulative Geocoder counters
+ */
+export type GeocoderMetrics = {
+  cache: CacheStats & {
+    /** Cache store reads and writes that threw, served as misses or skipped */
+    errors: number;
+  };
+  rateLimiter: RateLimiterStats;
+  requests: {
+    /** Number of API requests sent, including retries */
+    total: number;
+    /**
+     * Requests by outcome: a Geocoding API status (`OK`, `ZERO_RESULTS`, ...),
+     * `HTTP_<code>` for non-2xx responses, `INVALID_RESPONSE`, `TIMEOUT`, `ABORTED`
+     * or `NETWORK_ERROR`
+     */
+    byStatus: Record<string, number>;
+  };
+  latency: LatencyHistogram;
+};
+
+/**
+ * Records cache lookups, request outcomes and latencies
+ */
+export class MetricsRecorder {
+  private readonly bounds: number[];
+  private readonly bucketCounts: number[];
+  private readonly byStatus = new Map<string, number>();
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private cacheErrors = 0;
+  private latencySum = 0;
+  private latencyCount = 0;
+
+  constructor(latencyBuckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.bounds = [...latencyBuckets].sort((a, b) => a - b);
+    this.bucketCounts = this.bounds.map(() => 0);
+  }
+
+  /**
+   * Record a cache lookup
+   */
+  recordCacheLookup(hit: boolean): void {
+    if (hit) {
+      this.cacheHits++;
+    } else {
+      this.cacheMisses++;
+    }
+  }
+
+  /**
+   * Record a failed cache store read or write
+   */
+  recordCacheError(): void {
+    this.cacheErrors++;
+  }
+
+  /**
+   * Record a completed API request
+   * @param status - Outcome label (see `GeocoderMetrics.requests.byStatus`)
+   * @param duration - Request latency in milliseconds
+   */
+  recordRequest(status: string, duration: number): void {
+    this.byStatus.set(status, (this.byStatus.get(status) ?? 0) + 1);
+
+    const index = this.bounds.findIndex((bound) => duration <= bound);
+    if (index !== -1) {
+      this.bucketCounts[index]++;
+    }
+
+    this.latencySum += duration;
+    this.latencyCount++;
+  }
+
+  /**
+   * Get cache lookup and request counters and the latency histogram
+   */
+  getStats(): Pick<GeocoderMetrics, "requests" | "latency"> & {
+    cacheLookups: Pick<CacheStats, "hits" | "misses">;
+    cacheErrors: number;
+  } {
+    let cumulative = 0;
+    const buckets = this.bounds.map((le, index) => {
+      cumulative += this.bucketCounts[index];
+      return { le, count: cumulative };
+    });
+
+    return {
+      cacheLookups: { hits: this.cacheHits, misses: this.cacheMisses },
+      cacheErrors: this.cacheErrors,
+      requests: {
+        total: this.latencyCount,
+        byStatus: Object.fromEntries(this.byStatus),
+      },
+      latency: { buckets, sum: this.latencySum, count: this.latencyCount },
+    };
+  }
+}
+
+/**
+ * Format a metrics snapshot in the Prometheus text exposition format
+ *
+ * @example
+ * ```ts
+ * app.get('/metrics', (_req, res) => {
+ *   res.type('text/plain').send(formatPrometheusMetrics(geocoder.getMetrics()));
+ * });
+ * ```
+ */
+export function formatPrometheusMetrics(
+  metrics: GeocoderMetrics,
+  prefix = "geocoder"
+): string {
+  const lines: string[] = [];
+  const counter = (name: string, help: string, value: number) => {
+    lines.push(
+      `# HELP ${prefix}_${name} ${help}`,
+      `# TYPE ${prefix}_${name} counter`,
+      `${prefix}_${name} ${value}`
+    );
+  };
+
+  counter(
+    "cache_hits_total",
+    "Cache lookups that returned a value",
+    metrics.cache.hits
+  );
+  counter(
+    "cache_misses_total",
+    "Cache lookups that found nothing",
+    metrics.cache.misses
+  );
+  counter(
+    "cache_evictions_total",
+    "Cache entries evicted to make room",
+    metrics.cache.evictions
+  );
+  counter(
+    "cache_expirations_total",
+    "Cache entries removed after their TTL",
+    metrics.cache.expirations
+  );
+  counter(
+    "cache_errors_total",
+    "Cache store reads and writes that failed",
+    metrics.cache.errors
+  );
+  counter(
+    "rate_limiter_waits_total",
+    "Requests that waited for the rate limiter",
+    metrics.rateLimiter.waits
+  );
+  counter(
+    "rate_limiter_wait_milliseconds_total",
+    "Time spent waiting for the rate limiter",
+    metrics.rateLimiter.totalWaitTime
+  );
+  counter(
+    "rate_limiter_rejections_total",
+    "Requests rejected by the rate limiter",
+    metrics.rateLimiter.rejections
+  );
+
+  lines.push(
+    `# HELP ${prefix}_requests_total API requests by outcome`,
+    `# TYPE ${prefix}_requests_total counter`
+  );
+  for (const [status, count] of Object.entries(metrics.requests.byStatus)) {
+    lines.push(`${prefix}_requests_total{status="${status}"} ${count}`);
+  }
+
+  const histogram = `${prefix}_request_duration_milliseconds`;
+  lines.push(
+    `# HELP ${histogram} API request latency`,
+    `# TYPE ${histogram} histogram`
+  );
+  for (const bucket of metrics.latency.buckets) {
+    lines.push(`${histogram}_bucket{le="${bucket.le}"} ${bucket.count}`);
+  }
+
+  lines.push(
+    `${histogram}_bucket{le="+Inf"} ${metrics.latency.count}`,
+    `${histogram}_sum ${metrics.latency.sum}`,
+    `${histogram}_count ${metrics.latency.count}`
+  );
+
+  return `${lines.join("\n")}\n`;
+}
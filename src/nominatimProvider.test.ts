@@ -0,0 +1,283 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { NominatimProvider } from "./nominatimProvider.js";
+import { Geocoder } from "./geocoder.js";
+import { InvalidRequestError, ResponseParseError } from "./errors.js";
+import type { RawNominatimPlace } from "./types.js";
+
+const brandenburgGate: RawNominatimPlace = {
+  osm_type: "way",
+  osm_id: 518_071_791,
+  lat: "52.5162699",
+  lon: "13.3777034",
+  category: "tourism",
+  type: "attraction",
+  addresstype: "tourism",
+  name: "Brandenburger Tor",
+  display_name:
+    "Brandenburger Tor, 1, Pariser Platz, Mitte, Berlin, 10117, Deutschland",
+  address: {
+    tourism: "Brandenburger Tor",
+    house_number: "1",
+    road: "Pariser Platz",
+    suburb: "Mitte",
+    city: "Berlin",
+    "ISO3166-2-lvl4": "DE-BE",
+    state: "Berlin",
+    postcode: "10117",
+    country: "Deutschland",
+    country_code: "de",
+  },
+  boundingbox: ["52.5160810", "52.5164769", "13.3775226", "13.3778878"],
+};
+
+describe("NominatimProvider", () => {
+  let geocoder: Geocoder;
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+  const respondWith = (body: unknown) => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(body))
+    );
+  };
+
+  const requestedUrl = () =>
+    new URL(mockFetch.mock.calls[0].arguments[0] as string);
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>();
+    geocoder = new Geocoder({
+      provider: new NominatimProvider({
+        userAgent: "geocode-tests/1.0",
+        email: "ops@example.com",
+      }),
+      language: "de",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+  });
+
+  afterEach(() => {
+    geocoder.dispose();
+  });
+
+  it("should not require an API key", () => {
+    assert.doesNotThrow(
+      () => new Geocoder({ provider: new NominatimProvider() })
+    );
+  });
+
+  it("should search by address", async () => {
+    respondWith([brandenburgGate]);
+
+    await geocoder.geocode({
+      address: "Pariser Platz 1, Berlin",
+      components: { country: "DE" },
+    });
+
+    const url = requestedUrl();
+    assert.strictEqual(
+      url.origin + url.pathname,
+      "https://nominatim.openstreetmap.org/search"
+    );
+    assert.strictEqual(url.searchParams.get("q"), "Pariser Platz 1, Berlin");
+    assert.strictEqual(url.searchParams.get("countrycodes"), "de");
+    assert.strictEqual(url.searchParams.get("format"), "jsonv2");
+    assert.strictEqual(url.searchParams.get("addressdetails"), "1");
+    assert.strictEqual(url.searchParams.get("accept-language"), "de");
+    assert.strictEqual(url.searchParams.get("email"), "ops@example.com");
+
+    const { headers } = mockFetch.mock.calls[0].arguments[1]!;
+    assert.strictEqual(
+      (headers as Record<string, string>)["User-Agent"],
+      "geocode-tests/1.0"
+    );
+  });
+
+  it("should map component filters to a structured search", async () => {
+    respondWith([]);
+
+    await geocoder.geocode({
+      components: { route: "Pariser Platz", locality: "Berlin", country: "DE" },
+    });
+
+    const url = requestedUrl();
+    assert.strictEqual(url.searchParams.get("street"), "Pariser Platz");
+    assert.strictEqual(url.searchParams.get("city"), "Berlin");
+    assert.strictEqual(url.searchParams.get("q"), null);
+  });
+
+  it("should reject options Nominatim cannot honour", async () => {
+    await assert.rejects(
+      async () =>
+        geocoder.geocode({
+          address: "Berlin",
+          components: { locality: "Berlin" },
+        }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () => geocoder.geocode({ components: { sublocality: "Mitte" } }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () =>
+        geocoder.reverseGeocode({
+          latlng: { lat: 52.5, lng: 13.4 },
+          resultType: ["street_address"],
+        }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () => geocoder.geocodeByPlaceId("ChIJAVkDPzdOqEcRcDteW0YgIQQ"),
+      InvalidRequestError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 0);
+  });
+
+  it("should map OSM places to geocode results", async () => {
+    respondWith([brandenburgGate]);
+
+    const [result] = await geocoder.geocode({ address: "Brandenburger Tor" });
+
+    assert.strictEqual(result.formattedAddress, brandenburgGate.display_name);
+    assert.strictEqual(result.placeId, "W518071791");
+    assert.deepStrictEqual(result.types, ["street_address"]);
+    assert.deepStrictEqual(result.geometry.location, {
+      lat: 52.516_269_9,
+      lng: 13.377_703_4,
+    });
+    assert.strictEqual(result.geometry.locationType, "ROOFTOP");
+    assert.deepStrictEqual(result.geometry.viewport, {
+      northeast: { lat: 52.516_476_9, lng: 13.377_887_8 },
+      southwest: { lat: 52.516_081, lng: 13.377_522_6 },
+    });
+    assert.deepStrictEqual(result.addressComponents, [
+      { longName: "1", shortName: "1", types: ["street_number"] },
+      {
+        longName: "Pariser Platz",
+        shortName: "Pariser Platz",
+        types: ["route"],
+      },
+      {
+        longName: "Mitte",
+        shortName: "Mitte",
+        types: ["sublocality", "sublocality_level_1", "political"],
+      },
+      {
+        longName: "Berlin",
+        shortName: "Berlin",
+        types: ["locality", "political"],
+      },
+      {
+        longName: "Berlin",
+        shortName: "BE",
+        types: ["administrative_area_level_1", "political"],
+      },
+      { longName: "10117", shortName: "10117", types: ["postal_code"] },
+      {
+        longName: "Deutschland",
+        shortName: "DE",
+        types: ["country", "political"],
+      },
+    ]);
+  });
+
+  it("should return fresh type arrays for every result", async () => {
+    const city = {
+      ...brandenburgGate,
+      addresstype: "city",
+      address: { city: "Berlin", country: "Deutschland", country_code: "de" },
+    };
+    respondWith([city, city]);
+
+    const [first, second] = await geocoder.geocode({ address: "Berlin" });
+    first.types.push("airport");
+    first.addressComponents[0].types.push("airport");
+
+    assert.deepStrictEqual(second.types, ["locality", "political"]);
+    assert.deepStrictEqual(second.addressComponents[0].types, [
+      "locality",
+      "political",
+    ]);
+  });
+
+  it("should only map known place types", async () => {
+    respondWith([
+      { ...brandenburgGate, addresstype: "constructor", address: {} },
+    ]);
+
+    const [result] = await geocoder.geocode({ address: "Brandenburger Tor" });
+
+    assert.deepStrictEqual(result.types, ["point_of_interest"]);
+  });
+
+  it("should reverse geocode and look up place IDs", async () => {
+    respondWith(brandenburgGate);
+
+    const [reverse] = await geocoder.reverseGeocode({
+      latlng: { lat: 52.516_27, lng: 13.3777 },
+    });
+    const [lookup] = await geocoder.geocodeByPlaceId("W518071791");
+
+    assert.strictEqual(reverse.placeId, "W518071791");
+    assert.strictEqual(lookup.placeId, "W518071791");
+
+    const reverseUrl = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+    assert.strictEqual(reverseUrl.pathname, "/reverse");
+    assert.strictEqual(reverseUrl.searchParams.get("lat"), "52.51627");
+    assert.strictEqual(reverseUrl.searchParams.get("lon"), "13.3777");
+
+    const lookupUrl = new URL(mockFetch.mock.calls[1].arguments[0] as string);
+    assert.strictEqual(lookupUrl.pathname, "/lookup");
+    assert.strictEqual(lookupUrl.searchParams.get("osm_ids"), "W518071791");
+  });
+
+  it("should treat 'Unable to geocode' as no results", async () => {
+    respondWith({ error: "Unable to geocode" });
+
+    const results = await geocoder.reverseGeocode({
+      latlng: { lat: 0, lng: 0 },
+    });
+
+    assert.deepStrictEqual(results, []);
+    assert.deepStrictEqual(geocoder.getMetrics().requests.byStatus, {
+      ZERO_RESULTS: 1,
+    });
+  });
+
+  it("should throw ResponseParseError for malformed places", async () => {
+    respondWith([{ ...brandenburgGate, lat: "north" }]);
+
+    await assert.rejects(
+      async () => geocoder.geocode({ address: "Berlin" }),
+      (error: unknown) =>
+        error instanceof ResponseParseError && error.path === "[0].lat"
+    );
+  });
+
+  it("should keep cache entries apart from other providers", async () => {
+    const cacheKeys: string[] = [];
+    const cached = new Geocoder({
+      provider: new NominatimProvider(),
+      fetch: mockFetch,
+      rateLimiter: false,
+      hooks: {
+        onCacheMiss({ cacheKey }) {
+          cacheKeys.push(cacheKey);
+        },
+      },
+    });
+    respondWith([brandenburgGate]);
+
+    await cached.geocode({ address: "Berlin" });
+    await cached.geocode({ address: "Berlin" });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 1);
+    assert.strictEqual(JSON.parse(cacheKeys[0]).provider, "nominatim");
+    assert.deepStrictEqual(cached.getKeyUsage(), []);
+
+    cached.dispose();
+  });
+});
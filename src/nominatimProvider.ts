@@ -0,0 +1,370 @@
+import type {
+  AddressComponent,
+  AddressType,
+  GeocoderConfig,
+  GeocodeResult,
+  LocationType,
+  RawNominatimPlace,
+} from "./types.js";
+import {
+  createStatusError,
+  InvalidRequestError,
+  type GeocodingErrorDetails,
+} from "./errors.js";
+import { parseNominatimResponse } from "./validation.js";
+import type {
+  GeocodingProvider,
+  GeocodingQuery,
+  ProviderRequest,
+  ProviderResponse,
+} from "./provider.js";
+
+const DEFAULT_BASE_URL = "https://nominatim.openstreetmap.org/";
+
+/**
+ * Error Nominatim reports when `/reverse` finds nothing
+ */
+const NO_RESULT_ERROR = /unable to geocode/i;
+
+/**
+ * Google component filters and the structured search parameters they map to
+ */
+const STRUCTURED_PARAMETERS: Record<string, string> = {
+  route: "street",
+  locality: "city",
+  administrative_area: "state",
+  postal_code: "postalcode",
+};
+
+/**
+ * OSM address keys and the component types they map to, most specific first
+ */
+const COMPONENT_TYPES: Array<[string, AddressType[]]> = [
+  ["house_number", ["street_number"]],
+  ["road", ["route"]],
+  ["neighbourhood", ["neighborhood", "political"]],
+  ["suburb", ["sublocality", "sublocality_level_1", "political"]],
+  ["city", ["locality", "political"]],
+  ["town", ["locality", "political"]],
+  ["village", ["locality", "political"]],
+  ["hamlet", ["locality", "political"]],
+  ["county", ["administrative_area_level_2", "political"]],
+  ["state", ["administrative_area_level_1", "political"]],
+  ["postcode", ["postal_code"]],
+  ["country", ["country", "political"]],
+];
+
+/**
+ * Nominatim address types and the result types they map to
+ */
+const PLACE_TYPES: Record<string, AddressType[]> = {
+  house: ["premise"],
+  building: ["premise"],
+  road: ["route"],
+  neighbourhood: ["neighborhood", "political"],
+  suburb: ["sublocality", "political"],
+  city: ["locality", "political"],
+  town: ["locality", "political"],
+  village: ["locality", "political"],
+  hamlet: ["locality", "political"],
+  county: ["administrative_area_level_2", "political"],
+  state: ["administrative_area_level_1", "political"],
+  postcode: ["postal_code"],
+  country: ["country", "political"],
+};
+
+/**
+ * Configuration options for the Nominatim provider
+ */
+export type NominatimProviderConfig = {
+  /**
+   * Sent as the `User-Agent` header. The public server requires one that
+   * identifies your application.
+   */
+  userAgent?: string;
+  /** Contact address sent with every request, for heavy users of the public server */
+  email?: string;
+  /** Maximum number of results per search (default: server default) */
+  limit?: number;
+} & Pick<GeocoderConfig, "baseUrl" | "responseValidation">;
+
+/**
+ * Nominatim (OpenStreetMap) backend
+ *
+ * Results are mapped to the `GeocodeResult` shape: `display_name` becomes
+ * `formattedAddress`, address details become `addressComponents`, the
+ * bounding box becomes the viewport, and `placeId` is the OSM type initial
+ * and ID (e.g. "W5013364"), which `geocodeByPlaceId` accepts.
+ *
+ * Nominatim cannot honour every Google option: `region` is ignored, and
+ * reverse geocoding filters and component filters other than `country`,
+ * `route`, `locality`, `administrative_area` and `postal_code` are rejected
+ * with `InvalidRequestError`. The public server allows one request per
+ * second, so configure the Geocoder's rate limiter accordingly.
+ *
+ * @example
+ * ```ts
+ * const geocoder = new Geocoder({
+ *   provider: new NominatimProvider({ userAgent: 'my-app/1.0 (ops@example.com)' }),
+ *   rateLimiter: { maxRequests: 1, interval: 1000 },
+ * });
+ * ```
+ */
+export class NominatimProvider implements GeocodingProvider {
+  private readonly baseUrl: string;
+  private readonly userAgent: string | undefined;
+  private readonly email: string | undefined;
+  private readonly limit: number | undefined;
+  private readonly lenient: boolean;
+
+  constructor(config: NominatimProviderConfig = {}) {
+    const baseUrl = config.baseUrl ?? DEFAULT_BASE_URL;
+    this.baseUrl = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+    this.userAgent = config.userAgent;
+    this.email = config.email;
+    this.limit = config.limit;
+    this.lenient = config.responseValidation === "lenient";
+  }
+
+  get name(): string {
+    return "nominatim";
+  }
+
+  /**
+   * Build a `/search`, `/reverse` or `/lookup` request
+   * @throws {InvalidRequestError} When the query uses options Nominatim cannot honour
+   */
+  createRequest(query: GeocodingQuery): ProviderRequest {
+    const [endpoint, parameters] = this.toEndpoint(query);
+    const url = new URL(endpoint, this.baseUrl);
+
+    for (const [name, value] of parameters) {
+      url.searchParams.set(name, value);
+    }
+
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("addressdetails", "1");
+
+    if (query.language) {
+      url.searchParams.set("accept-language", query.language);
+    }
+
+    if (this.email) {
+      url.searchParams.set("email", this.email);
+    }
+
+    return {
+      url,
+      headers: this.userAgent ? { "User-Agent": this.userAgent } : undefined,
+    };
+  }
+
+  /**
+   * Map a Nominatim response to geocoding results
+   */
+  parseResponse(
+    body: string,
+    details: GeocodingErrorDetails
+  ): ProviderResponse {
+    const { places, error } = parseNominatimResponse(body, {
+      lenient: this.lenient,
+    });
+
+    if (error !== undefined && !NO_RESULT_ERROR.test(error)) {
+      throw createStatusError("INVALID_REQUEST", error, details);
+    }
+
+    const results = places.map((place) => this.toGeocodeResult(place));
+
+    return { status: results.length > 0 ? "OK" : "ZERO_RESULTS", results };
+  }
+
+  private toEndpoint(query: GeocodingQuery): [string, URLSearchParams] {
+    switch (query.type) {
+      case "geocode": {
+        return ["search", this.toSearchParameters(query)];
+      }
+
+      case "reverse": {
+        if (
+          (query.resultType?.length ?? 0) > 0 ||
+          (query.locationType?.length ?? 0) > 0
+        ) {
+          throw new InvalidRequestError(
+            "Nominatim does not support reverse geocoding filters"
+          );
+        }
+
+        return [
+          "reverse",
+          new URLSearchParams({
+            lat: String(query.latlng.lat),
+            lon: String(query.latlng.lng),
+          }),
+        ];
+      }
+
+      case "placeId": {
+        if (!/^[NWR]\d+$/.test(query.placeId)) {
+          throw new InvalidRequestError(
+            "Nominatim place IDs are an OSM type initial and ID, e.g. W5013364"
+          );
+        }
+
+        return ["lookup", new URLSearchParams({ osm_ids: query.placeId })];
+      }
+    }
+  }
+
+  private toSearchParameters(
+    query: Extract<GeocodingQuery, { type: "geocode" }>
+  ): URLSearchParams {
+    const parameters = new URLSearchParams();
+    const { country, ...components } = query.components ?? {};
+
+    if (country) {
+      parameters.set("countrycodes", country.toLowerCase());
+    }
+
+    // Free-form and structured queries cannot be combined
+    if (query.address) {
+      if (Object.keys(components).length > 0) {
+        throw new InvalidRequestError(
+          "Nominatim only supports the country component filter together with an address"
+        );
+      }
+
+      parameters.set("q", query.address);
+    } else {
+      if (country) {
+        parameters.set("country", country);
+      }
+
+      for (const [component, value] of Object.entries(components)) {
+        const name = Object.hasOwn(STRUCTURED_PARAMETERS, component)
+          ? STRUCTURED_PARAMETERS[component]
+          : undefined;
+        if (!name) {
+          throw new InvalidRequestError(
+            `Nominatim does not support the ${component} component filter`
+          );
+        }
+
+        parameters.set(name, value);
+      }
+    }
+
+    if (query.bounds) {
+      const { southwest, northeast } = query.bounds;
+      parameters.set(
+        "viewbox",
+        `${southwest.lng},${southwest.lat},${northeast.lng},${northeast.lat}`
+      );
+    }
+
+    if (this.limit !== undefined) {
+      parameters.set("limit", String(this.limit));
+    }
+
+    return parameters;
+  }
+
+  private toGeocodeResult(raw: RawNominatimPlace): GeocodeResult {
+    const location = { lat: Number(raw.lat), lng: Number(raw.lon) };
+    const [minLat, maxLat, minLng, maxLng] = raw.boundingbox?.map(Number) ?? [
+      location.lat,
+      location.lat,
+      location.lng,
+      location.lng,
+    ];
+    const viewport = {
+      northeast: { lat: maxLat, lng: maxLng },
+      southwest: { lat: minLat, lng: minLng },
+    };
+    const address = raw.address ?? {};
+
+    return {
+      addressComponents: this.toAddressComponents(address),
+      formattedAddress: raw.display_name,
+      geometry: {
+        location,
+        locationType: this.toLocationType(raw),
+        viewport,
+        // Nodes are points, ways and relations cover an area
+        bounds: raw.osm_type && raw.osm_type !== "node" ? viewport : undefined,
+      },
+      placeId:
+        raw.osm_type && raw.osm_id !== undefined
+          ? `${raw.osm_type.charAt(0).toUpperCase()}${raw.osm_id}`
+          : "",
+      types: this.toTypes(raw),
+    };
+  }
+
+  private toAddressComponents(
+    address: Record<string, string>
+  ): AddressComponent[] {
+    const components: AddressComponent[] = [];
+
+    for (const [key, types] of COMPONENT_TYPES) {
+      const longName = address[key];
+      if (longName === undefined) {
+        continue;
+      }
+
+      // Only the most specific of city, town, village and hamlet is the locality
+      if (
+        types.includes("locality") &&
+        components.some((c) => c.types.includes("locality"))
+      ) {
+        continue;
+      }
+
+      components.push({
+        longName,
+        shortName: this.toShortName(key, longName, address),
+        types: [...types],
+      });
+    }
+
+    return components;
+  }
+
+  private toShortName(
+    key: string,
+    longName: string,
+    address: Record<string, string>
+  ): string {
+    if (key === "country") {
+      return address.country_code?.toUpperCase() ?? longName;
+    }
+
+    // ISO 3166-2 codes look like "US-CA"
+    const subdivision = address["ISO3166-2-lvl4"];
+    if (key === "state" && subdivision) {
+      return subdivision.split("-")[1] ?? longName;
+    }
+
+    return longName;
+  }
+
+  private toTypes(raw: RawNominatimPlace): AddressType[] {
+    if (raw.address?.house_number) {
+      return ["street_address"];
+    }
+
+    if (raw.addresstype && Object.hasOwn(PLACE_TYPES, raw.addresstype)) {
+      return [...PLACE_TYPES[raw.addresstype]];
+    }
+
+    return raw.name ? ["point_of_interest"] : [];
+  }
+
+  private toLocationType(raw: RawNominatimPlace): LocationType {
+    if (raw.address?.house_number) {
+      return "ROOFTOP";
+    }
+
+    return raw.addresstype === "road" ? "GEOMETRIC_CENTER" : "APPROXIMATE";
+  }
+}
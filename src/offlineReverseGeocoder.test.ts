@@ -0,0 +1,323 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { OfflineReverseGeocoder } from "./offlineReverseGeocoder.js";
+import { Geocoder } from "./geocoder.js";
+import { InvalidRequestError, ResponseParseError } from "./errors.js";
+import type {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonPosition,
+} from "./types.js";
+
+/**
+ * Closed ring of a rectangle
+ */
+const rectangle = (
+  minLng: number,
+  minLat: number,
+  maxLng: number,
+  maxLat: number
+): GeoJsonPosition[] => [
+  [minLng, minLat],
+  [maxLng, minLat],
+  [maxLng, maxLat],
+  [minLng, maxLat],
+  [minLng, minLat],
+];
+
+const feature = (
+  properties: Record<string, unknown>,
+  geometry: GeoJsonFeature["geometry"]
+): GeoJsonFeature => ({ type: "Feature", properties, geometry });
+
+const boundaries: GeoJsonFeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    feature(
+      { name: "Testland", short_name: "TL", type: "country", place_id: "tl" },
+      { type: "Polygon", coordinates: [rectangle(0, 0, 10, 10)] }
+    ),
+    // North has a lake that belongs to no state
+    feature(
+      { name: "North", type: "administrative_area_level_1" },
+      {
+        type: "Polygon",
+        coordinates: [rectangle(0, 5, 10, 10), rectangle(7, 7, 8, 8)],
+      }
+    ),
+    feature(
+      { name: "South", type: "administrative_area_level_1" },
+      { type: "Polygon", coordinates: [rectangle(0, 0, 10, 5)] }
+    ),
+    feature(
+      { name: "Islandia", short_name: "IS", type: "country" },
+      {
+        type: "MultiPolygon",
+        coordinates: [[rectangle(20, 0, 22, 2)], [rectangle(30, 0, 32, 2)]],
+      }
+    ),
+    feature({ name: "Open Sea", type: "ocean" }, null),
+  ],
+};
+
+describe("OfflineReverseGeocoder", () => {
+  let geocoder: OfflineReverseGeocoder;
+
+  beforeEach(() => {
+    geocoder = new OfflineReverseGeocoder({ data: boundaries });
+  });
+
+  it("should require exactly one of path or data", () => {
+    assert.throws(() => new OfflineReverseGeocoder({}), InvalidRequestError);
+    assert.throws(
+      () => new OfflineReverseGeocoder({ path: "a.geojson", data: boundaries }),
+      InvalidRequestError
+    );
+  });
+
+  it("should return every boundary containing the point, most specific first", async () => {
+    const results = await geocoder.reverseGeocode({
+      latlng: { lat: 7, lng: 2 },
+    });
+
+    assert.deepStrictEqual(
+      results.map((result) => result.formattedAddress),
+      ["North, Testland", "Testland"]
+    );
+    assert.deepStrictEqual(results[0].addressComponents, [
+      {
+        longName: "North",
+        shortName: "North",
+        types: ["administrative_area_level_1", "political"],
+      },
+      {
+        longName: "Testland",
+        shortName: "TL",
+        types: ["country", "political"],
+      },
+    ]);
+    assert.strictEqual(results[0].placeId, "");
+    assert.strictEqual(results[1].placeId, "tl");
+    assert.deepStrictEqual(results[1].types, ["country", "political"]);
+    assert.deepStrictEqual(results[1].geometry, {
+      location: { lat: 5, lng: 5 },
+      locationType: "APPROXIMATE",
+      viewport: {
+        northeast: { lat: 10, lng: 10 },
+        southwest: { lat: 0, lng: 0 },
+      },
+      bounds: {
+        northeast: { lat: 10, lng: 10 },
+        southwest: { lat: 0, lng: 0 },
+      },
+    });
+  });
+
+  it("should filter by result type", async () => {
+    const results = await geocoder.reverseGeocode({
+      latlng: { lat: 2, lng: 2 },
+      resultType: ["country"],
+    });
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].formattedAddress, "Testland");
+  });
+
+  it("should respect holes and multi-polygons", async () => {
+    const lake = await geocoder.reverseGeocode({
+      latlng: { lat: 7.5, lng: 7.5 },
+    });
+    const island = await geocoder.reverseGeocode({
+      latlng: { lat: 1, lng: 31 },
+    });
+
+    assert.deepStrictEqual(
+      lake.map((result) => result.formattedAddress),
+      ["Testland"]
+    );
+    assert.strictEqual(island[0].formattedAddress, "Islandia");
+    assert.deepStrictEqual(island[0].geometry.location, { lat: 1, lng: 31 });
+  });
+
+  it("should return no results outside the dataset or for precise location types", async () => {
+    assert.deepStrictEqual(
+      await geocoder.reverseGeocode({ latlng: { lat: -30, lng: 150 } }),
+      []
+    );
+    assert.deepStrictEqual(
+      await geocoder.reverseGeocode({
+        latlng: { lat: 2, lng: 2 },
+        locationType: ["ROOFTOP"],
+      }),
+      []
+    );
+  });
+
+  it("should reject invalid coordinates", async () => {
+    await assert.rejects(
+      async () => geocoder.reverseGeocode({ latlng: { lat: 91, lng: 0 } }),
+      InvalidRequestError
+    );
+  });
+
+  it("should report which result types it covers", async () => {
+    assert.strictEqual(
+      await geocoder.covers(["country", "administrative_area_level_1"]),
+      true
+    );
+    assert.strictEqual(await geocoder.covers(["locality"]), false);
+  });
+
+  it("should map features with a custom function", async () => {
+    const custom = new OfflineReverseGeocoder({
+      data: boundaries,
+      mapFeature: ({ properties }) =>
+        properties?.type === "country"
+          ? {
+              longName: String(properties.name).toUpperCase(),
+              shortName: String(properties.name),
+              types: ["country"],
+            }
+          : undefined,
+    });
+
+    const results = await custom.reverseGeocode({ latlng: { lat: 7, lng: 2 } });
+
+    assert.deepStrictEqual(
+      results.map((result) => result.formattedAddress),
+      ["TESTLAND"]
+    );
+  });
+
+  describe("with a file", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "geocode-boundaries-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should read the file on first use", async () => {
+      const path = join(directory, "boundaries.geojson");
+      await writeFile(path, JSON.stringify(boundaries));
+
+      const fromFile = new OfflineReverseGeocoder({ path });
+      const [result] = await fromFile.reverseGeocode({
+        latlng: { lat: 2, lng: 2 },
+      });
+
+      assert.strictEqual(result.formattedAddress, "South, Testland");
+    });
+
+    it("should reject invalid files and retry on the next lookup", async () => {
+      const path = join(directory, "boundaries.geojson");
+      await writeFile(path, JSON.stringify({ type: "Feature" }));
+      const fromFile = new OfflineReverseGeocoder({ path });
+
+      await assert.rejects(async () => fromFile.load(), ResponseParseError);
+
+      await writeFile(path, JSON.stringify(boundaries));
+      assert.strictEqual(await fromFile.covers(["country"]), true);
+    });
+  });
+
+  describe("as a Geocoder pre-filter", () => {
+    let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+    let client: Geocoder;
+
+    beforeEach(() => {
+      mockFetch = mock.fn<typeof globalThis.fetch>(
+        async () =>
+          new Response(JSON.stringify({ status: "ZERO_RESULTS", results: [] }))
+      );
+
+      client = new Geocoder({
+        apiKey: "test-key",
+        fetch: mockFetch,
+        cache: false,
+        rateLimiter: false,
+        offlineReverseGeocoder: geocoder,
+      });
+    });
+
+    afterEach(() => {
+      client.dispose();
+    });
+
+    it("should answer covered result types locally", async () => {
+      const results = await client.reverseGeocode({
+        latlng: { lat: 7, lng: 2 },
+        resultType: ["country", "administrative_area_level_1"],
+      });
+
+      assert.strictEqual(results.length, 2);
+      assert.strictEqual(mockFetch.mock.callCount(), 0);
+    });
+
+    it("should call the API for other lookups", async () => {
+      await client.reverseGeocode({ latlng: { lat: 7, lng: 2 } });
+      await client.reverseGeocode({
+        latlng: { lat: 7, lng: 2 },
+        resultType: ["country", "locality"],
+      });
+      await client.reverseGeocode({
+        latlng: { lat: -30, lng: 150 },
+        resultType: ["country"],
+      });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 3);
+    });
+
+    it("should call the API when a requested type has no boundary at the point", async () => {
+      // Inside Testland, but in the lake that belongs to no state
+      await client.reverseGeocode({
+        latlng: { lat: 7.5, lng: 7.5 },
+        resultType: ["country", "administrative_area_level_1"],
+      });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+    });
+
+    it("should call the API when the dataset fails to load", async () => {
+      const missing = new Geocoder({
+        apiKey: "test-key",
+        fetch: mockFetch,
+        cache: false,
+        rateLimiter: false,
+        offlineReverseGeocoder: new OfflineReverseGeocoder({
+          path: join(tmpdir(), "geocode-missing", "boundaries.geojson"),
+        }),
+      });
+
+      const results = await missing.reverseGeocode({
+        latlng: { lat: 7, lng: 2 },
+        resultType: ["country"],
+      });
+
+      assert.deepStrictEqual(results, []);
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+
+      missing.dispose();
+    });
+
+    it("should answer batch lookups locally", async () => {
+      const items = [];
+      for await (const item of client.reverseGeocodeBatch([
+        { latlng: { lat: 7, lng: 2 }, resultType: ["country"] },
+        { latlng: { lat: -30, lng: 150 }, resultType: ["country"] },
+      ])) {
+        items.push(item);
+      }
+
+      assert.strictEqual(items[0].results?.[0].addressComponents.length, 1);
+      assert.deepStrictEqual(items[1].results, []);
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+    });
+  });
+});
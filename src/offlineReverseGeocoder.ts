@@ -0,0 +1,381 @@
+import { readFile } from "node:fs/promises";
+import type {
+  AddressComponent,
+  AddressType,
+  GeocodeResult,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonPosition,
+  LatLng,
+  ResultType,
+  ReverseGeocodeOptions,
+} from "./types.js";
+import { InvalidRequestError, throwIfAborted } from "./errors.js";
+import { isAddressType } from "./addressComponents.js";
+import { isValidLatLng, parseFeatureCollection } from "./validation.js";
+import {
+  boundingBoxOf,
+  SpatialIndex,
+  type BoundingBox,
+} from "./spatialIndex.js";
+
+/**
+ * Component types from most to least specific, used to order boundaries
+ * with identical extents, e.g. a city that is also a state
+ */
+const SPECIFICITY: AddressType[] = [
+  "postal_code",
+  "neighborhood",
+  "sublocality",
+  "locality",
+  "administrative_area_level_7",
+  "administrative_area_level_6",
+  "administrative_area_level_5",
+  "administrative_area_level_4",
+  "administrative_area_level_3",
+  "administrative_area_level_2",
+  "administrative_area_level_1",
+  "country",
+];
+
+/**
+ * Address component a boundary stands for
+ */
+export type BoundaryComponent = AddressComponent & {
+  /** Reported as `placeId` of the result for this boundary (default: "") */
+  placeId?: string;
+};
+
+/**
+ * Offline reverse geocoder options. Give either `path` or `data`.
+ */
+export type OfflineReverseGeocoderOptions = {
+  /** Path of a GeoJSON feature collection file, read on first use */
+  path?: string;
+  /** GeoJSON feature collection, e.g. imported from a bundled module */
+  data?: GeoJsonFeatureCollection;
+  /**
+   * Map a feature to its address component, or return undefined to skip it.
+   * Default: `name` is the long name, `short_name` the short name (default:
+   * the long name), `type` an address type such as "country", and
+   * `place_id` or the feature ID the place ID.
+   */
+  mapFeature?: (feature: GeoJsonFeature) => BoundaryComponent | undefined;
+};
+
+/**
+ * A polygon of a boundary, with its bounding box
+ */
+type BoundaryPolygon = {
+  boundary: BoundaryComponent;
+  rings: GeoJsonPosition[][];
+  box: BoundingBox;
+};
+
+type Dataset = {
+  index: SpatialIndex<BoundaryPolygon>;
+  types: Set<AddressType>;
+};
+
+/**
+ * Reverse geocoder answering from local administrative boundary polygons,
+ * e.g. countries and states, without calling an API
+ *
+ * Results have the `GeocodeResult` shape of the Geocoding API: one result
+ * per boundary containing the point, most specific first, each listing its
+ * enclosing boundaries as address components. The location is the centre of
+ * the boundary polygon's bounding box and the location type is always
+ * "APPROXIMATE".
+ *
+ * Pass it to `Geocoder` as `offlineReverseGeocoder` to answer reverse
+ * geocoding requests for boundary types locally and call the API only for
+ * everything else.
+ *
+ * @example
+ * ```ts
+ * const boundaries = new OfflineReverseGeocoder({ path: 'data/admin-boundaries.geojson' });
+ *
+ * const [state] = await boundaries.reverseGeocode({
+ *   latlng: { lat: 37.42, lng: -122.08 },
+ *   resultType: ['administrative_area_level_1'],
+ * });
+ * console.log(state?.formattedAddress); // "California, United States"
+ * ```
+ */
+export class OfflineReverseGeocoder {
+  private readonly path: string | undefined;
+  private readonly data: GeoJsonFeatureCollection | undefined;
+  private readonly mapFeature: (
+    feature: GeoJsonFeature
+  ) => BoundaryComponent | undefined;
+
+  private loading: Promise<Dataset> | undefined;
+
+  /**
+   * @throws {InvalidRequestError} When neither or both of `path` and `data` are given
+   */
+  constructor(options: OfflineReverseGeocoderOptions) {
+    if ((options.path === undefined) === (options.data === undefined)) {
+      throw new InvalidRequestError("Exactly one of path or data is required");
+    }
+
+    this.path = options.path;
+    this.data = options.data;
+    this.mapFeature = options.mapFeature ?? toBoundaryComponent;
+  }
+
+  /**
+   * Read and index the boundaries now instead of on the first lookup
+   *
+   * @throws {ResponseParseError} When the file is not a GeoJSON feature collection
+   */
+  async load(): Promise<void> {
+    await this.getDataset();
+  }
+
+  /**
+   * Check whether the dataset has boundaries of every given type
+   */
+  async covers(resultType: ResultType[]): Promise<boolean> {
+    const { types } = await this.getDataset();
+
+    return resultType.every((type) => types.has(type));
+  }
+
+  /**
+   * Find the boundaries containing a point
+   *
+   * `resultType` keeps boundaries of the given types. `locationType` filters
+   * that exclude "APPROXIMATE" match nothing. `language` is ignored.
+   *
+   * @returns Array of geocode results, most specific first (empty array if no boundary contains the point)
+   * @throws {InvalidRequestError} When the coordinates are invalid
+   * @throws {ResponseParseError} When the file is not a GeoJSON feature collection
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async reverseGeocode(
+    options: ReverseGeocodeOptions
+  ): Promise<GeocodeResult[]> {
+    if (!isValidLatLng(options.latlng)) {
+      throw new InvalidRequestError(
+        "Valid latitude and longitude are required"
+      );
+    }
+
+    throwIfAborted(options.signal);
+    const { index } = await this.getDataset();
+    throwIfAborted(options.signal);
+
+    if (
+      (options.locationType?.length ?? 0) > 0 &&
+      !options.locationType?.includes("APPROXIMATE")
+    ) {
+      return [];
+    }
+
+    const containing = this.findContaining(index, options.latlng);
+    const results: GeocodeResult[] = [];
+
+    for (const [position, polygon] of containing.entries()) {
+      const { boundary, box } = polygon;
+      if (
+        options.resultType?.length &&
+        !boundary.types.some(
+          (type) => isAddressType(type) && options.resultType?.includes(type)
+        )
+      ) {
+        continue;
+      }
+
+      const components = containing
+        .slice(position)
+        .map(({ boundary: { longName, shortName, types } }) => ({
+          longName,
+          shortName,
+          types,
+        }));
+      const viewport = {
+        northeast: { lat: box.maxLat, lng: box.maxLng },
+        southwest: { lat: box.minLat, lng: box.minLng },
+      };
+
+      results.push({
+        addressComponents: components,
+        formattedAddress: components.map((c) => c.longName).join(", "),
+        geometry: {
+          location: {
+            lat: (box.minLat + box.maxLat) / 2,
+            lng: (box.minLng + box.maxLng) / 2,
+          },
+          locationType: "APPROXIMATE",
+          viewport,
+          bounds: viewport,
+        },
+        placeId: boundary.placeId ?? "",
+        types: boundary.types,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the polygons containing a point, one per boundary, smallest first
+   */
+  private findContaining(
+    index: SpatialIndex<BoundaryPolygon>,
+    point: LatLng
+  ): BoundaryPolygon[] {
+    const found = new Map<BoundaryComponent, BoundaryPolygon>();
+
+    for (const polygon of index.search(point)) {
+      if (!found.has(polygon.boundary) && containsInPolygon(polygon, point)) {
+        found.set(polygon.boundary, polygon);
+      }
+    }
+
+    // A boundary's box lies within the box of every boundary enclosing it
+    return [...found.values()].sort(
+      (a, b) => area(a.box) - area(b.box) || specificity(a) - specificity(b)
+    );
+  }
+
+  private async getDataset(): Promise<Dataset> {
+    this.loading ??= this.loadDataset();
+
+    try {
+      return await this.loading;
+    } catch (error) {
+      // Let the next lookup retry, e.g. once the file exists
+      this.loading = undefined;
+      throw error;
+    }
+  }
+
+  private async loadDataset(): Promise<Dataset> {
+    const collection =
+      this.data ?? parseFeatureCollection(await readFile(this.path!, "utf8"));
+
+    const polygons: BoundaryPolygon[] = [];
+    const types = new Set<AddressType>();
+
+    for (const feature of collection.features) {
+      const boundary = feature.geometry ? this.mapFeature(feature) : undefined;
+      if (!feature.geometry || !boundary) {
+        continue;
+      }
+
+      const rings =
+        feature.geometry.type === "Polygon"
+          ? [feature.geometry.coordinates]
+          : feature.geometry.coordinates;
+
+      for (const polygon of rings) {
+        const [outer] = polygon;
+        if (!outer) {
+          continue;
+        }
+
+        polygons.push({
+          boundary,
+          rings: polygon,
+          box: boundingBoxOf(outer.map(([lng, lat]) => ({ lat, lng }))),
+        });
+      }
+
+      for (const type of boundary.types) {
+        if (isAddressType(type)) {
+          types.add(type);
+        }
+      }
+    }
+
+    return {
+      index: new SpatialIndex(
+        polygons.map((polygon) => ({ box: polygon.box, value: polygon }))
+      ),
+      types,
+    };
+  }
+}
+
+/**
+ * Read a boundary from the `name`, `short_name`, `type` and `place_id`
+ * feature properties
+ */
+function toBoundaryComponent(
+  feature: GeoJsonFeature
+): BoundaryComponent | undefined {
+  const properties = feature.properties ?? {};
+  const { name, type } = properties;
+  if (typeof name !== "string" || typeof type !== "string") {
+    return undefined;
+  }
+
+  if (!isAddressType(type)) {
+    return undefined;
+  }
+
+  const shortName =
+    typeof properties.short_name === "string" ? properties.short_name : name;
+  const placeId =
+    typeof properties.place_id === "string"
+      ? properties.place_id
+      : feature.id?.toString();
+
+  return {
+    longName: name,
+    shortName,
+    // Postal codes are the only boundaries that are not political
+    types: type === "postal_code" ? [type] : [type, "political"],
+    placeId,
+  };
+}
+
+/**
+ * Check whether a point lies inside the outer ring of a polygon and outside
+ * its holes
+ */
+function containsInPolygon(polygon: BoundaryPolygon, point: LatLng): boolean {
+  const [outer, ...holes] = polygon.rings;
+
+  return (
+    outer !== undefined &&
+    containsInRing(outer, point) &&
+    !holes.some((hole) => containsInRing(hole, point))
+  );
+}
+
+/**
+ * Ray casting test against a ring of `[longitude, latitude]` positions
+ */
+function containsInRing(ring: GeoJsonPosition[], point: LatLng): boolean {
+  let inside = false;
+
+  for (let index = 0, previous = ring.length - 1; index < ring.length; ) {
+    const [lng, lat] = ring[index];
+    const [previousLng, previousLat] = ring[previous];
+
+    if (
+      lat > point.lat !== previousLat > point.lat &&
+      point.lng <
+        ((previousLng - lng) * (point.lat - lat)) / (previousLat - lat) + lng
+    ) {
+      inside = !inside;
+    }
+
+    previous = index++;
+  }
+
+  return inside;
+}
+
+function area(box: BoundingBox): number {
+  return (box.maxLat - box.minLat) * (box.maxLng - box.minLng);
+}
+
+function specificity({ boundary }: BoundaryPolygon): number {
+  const rank = SPECIFICITY.findIndex((type) => boundary.types.includes(type));
+
+  return rank === -1 ? SPECIFICITY.length : rank;
+}
@@ -0,0 +1,76 @@
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocodingStatus,
+  PlaceIdOptions,
+  ReverseGeocodeOptions,
+} from "./types.js";
+import type { GeocodingErrorDetails } from "./errors.js";
+
+/**
+ * A validated lookup, with the Geocoder's default language and region applied
+ */
+export type GeocodingQuery =
+  | ({ type: "geocode" } & Pick<
+      GeocodeOptions,
+      "address" | "components" | "bounds" | "language" | "region"
+    >)
+  | ({ type: "reverse" } & Pick<
+      ReverseGeocodeOptions,
+      "latlng" | "resultType" | "locationType" | "language"
+    >)
+  | ({ type: "placeId" } & Pick<PlaceIdOptions, "placeId" | "language">);
+
+/**
+ * An HTTP request built by a provider
+ */
+export type ProviderRequest = {
+  url: URL;
+  /** Extra headers, e.g. a `User-Agent` */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Results parsed from a provider response
+ */
+export type ProviderResponse = {
+  /** Outcome reported to metrics and hooks, in Geocoding API terms */
+  status: GeocodingStatus;
+  results: GeocodeResult[];
+};
+
+/**
+ * A geocoding backend
+ *
+ * `Geocoder` validates the options, then asks the provider to build the
+ * request for every attempt and to map successful HTTP responses. Caching,
+ * rate limiting, retries, timeouts and metrics stay with the `Geocoder`.
+ *
+ * @example
+ * ```ts
+ * const geocoder = new Geocoder({
+ *   provider: new NominatimProvider({ userAgent: 'my-app/1.0 (ops@example.com)' }),
+ * });
+ * ```
+ */
+export type GeocodingProvider = {
+  /** Short identifier, e.g. "google" or "nominatim" */
+  readonly name: string;
+  /**
+   * Build the request for a query
+   * @throws {InvalidRequestError} When the backend cannot answer the query
+   */
+  createRequest(query: GeocodingQuery): ProviderRequest;
+  /**
+   * Map the body of a 2xx response
+   * @param details - Request details to attach to thrown errors
+   * @throws {GeocodingError} When the response reports an error
+   * @throws {ResponseParseError} When the body is malformed
+   */
+  parseResponse(body: string, details: GeocodingErrorDetails): ProviderResponse;
+  /**
+   * Called when a request using `url` ran out of quota. Return true to
+   * retry immediately with other credentials.
+   */
+  onQuotaExceeded?(url: URL, status: GeocodingStatus): boolean;
+};
@@ -1,6 +1,7 @@
 import { describe, it } from "node:test";
 import assert from "node:assert";
 import { RateLimiter, RateLimitError } from "./rateLimiter.js";
+import { AbortError } from "./errors.js";
 
 describe("RateLimiter", () => {
   describe("tryAcquire", () => {
@@ -65,6 +66,66 @@ describe("RateLimiter", () => {
     });
   });
 
+  describe("acquire (with abort signal)", () => {
+    it("should reject immediately when already aborted", async () => {
+      const limiter = new RateLimiter({ maxRequests: 3, interval: 100 });
+
+      await assert.rejects(
+        async () => limiter.acquire(AbortSignal.abort()),
+        AbortError
+      );
+      assert.strictEqual(limiter.getAvailableTokens(), 3);
+    });
+
+    it("should remove an aborted request from the queue", async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, interval: 1000 });
+      const controller = new AbortController();
+
+      await limiter.acquire();
+      const pending = limiter.acquire(controller.signal);
+      assert.strictEqual(limiter.getQueueSize(), 1);
+
+      controller.abort();
+
+      await assert.rejects(async () => pending, AbortError);
+      assert.strictEqual(limiter.getQueueSize(), 0);
+
+      limiter.dispose();
+    });
+  });
+
+  describe("getStats", () => {
+    it("should count rejections", async () => {
+      const limiter = new RateLimiter({
+        maxRequests: 1,
+        interval: 100,
+        queue: false,
+      });
+
+      await limiter.acquire();
+      await assert.rejects(async () => limiter.acquire(), RateLimitError);
+
+      assert.strictEqual(limiter.getStats().rejections, 1);
+    });
+
+    it("should count waits and wait time", async () => {
+      const limiter = new RateLimiter({ maxRequests: 1, interval: 50 });
+
+      await limiter.acquire();
+      // Keep the event loop alive; the refill timer is unref'd
+      await Promise.all([
+        limiter.acquire(),
+        new Promise((resolve) => setTimeout(resolve, 100)),
+      ]);
+
+      const stats = limiter.getStats();
+      assert.strictEqual(stats.waits, 1);
+      assert.ok(stats.totalWaitTime >= 40);
+
+      limiter.dispose();
+    });
+  });
+
   describe("getAvailableTokens", () => {
     it("should return remaining tokens", () => {
       const limiter = new RateLimiter({
@@ -1,3 +1,5 @@
+import { AbortError, GeocodingError, throwIfAborted } from "./errors.js";
+
 /**
  * Rate limiter options
  */
@@ -12,6 +14,18 @@ export type RateLimiterOptions = {
   maxQueueSize?: number;
 };
 
+/**
+ * Cumulative rate limiter counters
+ */
+export type RateLimiterStats = {
+  /** Requests that had to wait in the queue */
+  waits: number;
+  /** Total time spent waiting in the queue, in milliseconds */
+  totalWaitTime: number;
+  /** Requests rejected because queuing was disabled or the queue was full */
+  rejections: number;
+};
+
 type QueuedRequest = {
   resolve: () => void;
   reject: (error: Error) => void;
@@ -20,11 +34,19 @@ type QueuedRequest = {
 /**
  * Error thrown when rate limit is exceeded
  */
-export class RateLimitError extends Error {
+export class RateLimitError extends GeocodingError {
   constructor(message = "Rate limit exceeded") {
     super(message);
     this.name = "RateLimitError";
   }
+
+  /**
+   * Tokens are refilled over time, so a later attempt may succeed. The
+   * Geocoder does not retry it, since no request was sent.
+   */
+  override get isRetryable(): boolean {
+    return true;
+  }
 }
 
 /**
@@ -49,6 +71,11 @@ export class RateLimiter {
   private lastRefill: number;
   private readonly queue: QueuedRequest[] = [];
   private refillTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly stats: RateLimiterStats = {
+    waits: 0,
+    totalWaitTime: 0,
+    rejections: 0,
+  };
 
   constructor(options: RateLimiterOptions = {}) {
     this.maxRequests = options.maxRequests ?? 50;
@@ -62,9 +89,12 @@ export class RateLimiter {
 
   /**
    * Acquire a token, waiting if necessary
+   * @param signal - Optional signal that removes the request from the queue when aborted
    * @throws {RateLimitError} When queue is disabled or full
+   * @throws {AbortError} When the signal is aborted before a token is acquired
    */
-  async acquire(): Promise<void> {
+  async acquire(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
     this.refill();
 
     if (this.tokens > 0) {
@@ -73,18 +103,50 @@ export class RateLimiter {
     }
 
     if (!this.shouldQueue) {
+      this.stats.rejections++;
       throw new RateLimitError();
     }
 
     if (this.queue.length >= this.maxQueueSize) {
+      this.stats.rejections++;
       throw new RateLimitError("Rate limit queue is full");
     }
 
     // Start the refill timer if not running
     this.startRefillTimer();
 
+    this.stats.waits++;
+    const queuedAt = Date.now();
+    const recordWait = () => {
+      this.stats.totalWaitTime += Date.now() - queuedAt;
+    };
+
     return new Promise<void>((resolve, reject) => {
-      this.queue.push({ resolve, reject });
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+
+        recordWait();
+        reject(new AbortError(undefined, signal?.reason));
+      };
+
+      const request: QueuedRequest = {
+        resolve() {
+          signal?.removeEventListener("abort", onAbort);
+          recordWait();
+          resolve();
+        },
+        reject(error) {
+          signal?.removeEventListener("abort", onAbort);
+          recordWait();
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(request);
     });
   }
 
@@ -111,6 +173,13 @@ export class RateLimiter {
     return this.tokens;
   }
 
+  /**
+   * Get cumulative wait and rejection counters
+   */
+  getStats(): RateLimiterStats {
+    return { ...this.stats };
+  }
+
   /**
    * Get the number of requests waiting in queue
    */
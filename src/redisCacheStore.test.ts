@@ -0,0 +1,110 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert";
+import { RedisCacheStore, type RedisCommandClient } from "./redisCacheStore.js";
+
+/**
+ * In-memory stand-in implementing the subset of Redis commands used by the store
+ */
+class FakeRedis implements RedisCommandClient {
+  readonly data = new Map<string, { value: string; expiresAt: number }>();
+  readonly commands: string[][] = [];
+
+  async sendCommand(args: string[]): Promise<unknown> {
+    this.commands.push(args);
+    const [command, ...rest] = args;
+
+    switch (command) {
+      case "GET": {
+        const entry = this.data.get(rest[0]);
+        if (!entry || Date.now() > entry.expiresAt) {
+          this.data.delete(rest[0]);
+          return null;
+        }
+
+        return entry.value;
+      }
+
+      case "SET": {
+        this.data.set(rest[0], {
+          value: rest[1],
+          expiresAt: Date.now() + Number(rest[3]),
+        });
+        return "OK";
+      }
+
+      case "DEL": {
+        return rest.filter((key) => this.data.delete(key)).length;
+      }
+
+      case "SCAN": {
+        const prefix = rest[2].slice(0, -1).replaceAll("\\", "");
+        const keys = [...this.data.keys()].filter((key) =>
+          key.startsWith(prefix)
+        );
+        return ["0", keys];
+      }
+
+      default: {
+        throw new Error(`Unsupported command ${command}`);
+      }
+    }
+  }
+}
+
+describe("RedisCacheStore", () => {
+  let redis: FakeRedis;
+  let store: RedisCacheStore<{ name: string }>;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    store = new RedisCacheStore({ client: redis, ttl: 1000 });
+  });
+
+  it("should store and retrieve JSON values", async () => {
+    await store.set("key1", { name: "value1" });
+
+    assert.deepStrictEqual(await store.get("key1"), { name: "value1" });
+    assert.ok(redis.data.has("geocode:key1"));
+  });
+
+  it("should return undefined for missing keys", async () => {
+    assert.strictEqual(await store.get("nonexistent"), undefined);
+  });
+
+  it("should set expiry in milliseconds", async () => {
+    await store.set("key1", { name: "value1" });
+    await store.set("key2", { name: "value2" }, 50);
+
+    assert.deepStrictEqual(redis.commands[0].slice(3), ["PX", "1000"]);
+    assert.deepStrictEqual(redis.commands[1].slice(3), ["PX", "50"]);
+  });
+
+  it("should expire entries after TTL", async () => {
+    await store.set("key1", { name: "value1" }, 20);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    assert.strictEqual(await store.get("key1"), undefined);
+  });
+
+  it("should delete keys", async () => {
+    await store.set("key1", { name: "value1" });
+
+    assert.strictEqual(await store.delete("key1"), true);
+    assert.strictEqual(await store.delete("key1"), false);
+  });
+
+  it("should only clear keys with its prefix", async () => {
+    const other = new RedisCacheStore<{ name: string }>({
+      client: redis,
+      prefix: "other:",
+    });
+    await store.set("key1", { name: "value1" });
+    await other.set("key1", { name: "value2" });
+
+    await store.clear();
+
+    assert.strictEqual(await store.get("key1"), undefined);
+    assert.deepStrictEqual(await other.get("key1"), { name: "value2" });
+  });
+});
@@ -0,0 +1,130 @@
+import type { CacheStore } from "./cache.js";
+
+/**
+ * Minimal Redis client able to send raw commands.
+ *
+ * node-redis clients satisfy this directly. For ioredis, wrap the client:
+ * `{ sendCommand: ([command, ...args]) => redis.call(command, ...args) }`
+ */
+export type RedisCommandClient = {
+  sendCommand(args: string[]): Promise<unknown>;
+};
+
+/**
+ * Redis cache store options
+ */
+export type RedisCacheStoreOptions = {
+  /** Client used to send commands */
+  client: RedisCommandClient;
+  /** Prefix for every key written by this store (default: "geocode:") */
+  prefix?: string;
+  /** Time-to-live in milliseconds (default: 1 hour) */
+  ttl?: number;
+  /** Number of keys requested per SCAN call when clearing (default: 100) */
+  scanCount?: number;
+};
+
+/**
+ * Cache store backed by Redis, so cached results can be shared across processes
+ *
+ * Values are stored as JSON with a `PX` expiry.
+ *
+ * @example
+ * ```ts
+ * import { createClient } from 'redis';
+ *
+ * const client = await createClient().connect();
+ * const geocoder = new Geocoder({
+ *   apiKey: 'YOUR_API_KEY',
+ *   cache: new RedisCacheStore({ client, ttl: 24 * 60 * 60 * 1000 }),
+ * });
+ * ```
+ */
+export class RedisCacheStore<T> implements CacheStore<T> {
+  private readonly client: RedisCommandClient;
+  private readonly prefix: string;
+  private readonly ttl: number;
+  private readonly scanCount: number;
+
+  constructor(options: RedisCacheStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? "geocode:";
+    this.ttl = options.ttl ?? 60 * 60 * 1000; // 1 hour default
+    this.scanCount = options.scanCount ?? 100;
+  }
+
+  /**
+   * Get a value from Redis
+   * @returns The cached value or undefined if not found/expired
+   */
+  async get(key: string): Promise<T | undefined> {
+    const raw = await this.client.sendCommand(["GET", this.prefix + key]);
+
+    if (typeof raw !== "string") {
+      return undefined;
+    }
+
+    return JSON.parse(raw) as T;
+  }
+
+  /**
+   * Set a value in Redis
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param ttl - Optional TTL override in milliseconds
+   */
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    await this.client.sendCommand([
+      "SET",
+      this.prefix + key,
+      JSON.stringify(value),
+      "PX",
+      String(Math.max(1, Math.ceil(ttl ?? this.ttl))),
+    ]);
+  }
+
+  /**
+   * Delete a key from Redis
+   */
+  async delete(key: string): Promise<boolean> {
+    const removed = await this.client.sendCommand(["DEL", this.prefix + key]);
+    return Number(removed) > 0;
+  }
+
+  /**
+   * Delete every key with this store's prefix
+   */
+  async clear(): Promise<void> {
+    await this.clearFrom("0");
+  }
+
+  /**
+   * Delete the keys of one SCAN page, then continue with the next page
+   */
+  private async clearFrom(cursor: string): Promise<void> {
+    const [next, keys] = (await this.client.sendCommand([
+      "SCAN",
+      cursor,
+      "MATCH",
+      `${this.escapePattern(this.prefix)}*`,
+      "COUNT",
+      String(this.scanCount),
+    ])) as [string, string[]];
+
+    if (keys.length > 0) {
+      await this.client.sendCommand(["DEL", ...keys]);
+    }
+
+    // SCAN returns cursor 0 once the iteration is complete
+    if (String(next) !== "0") {
+      await this.clearFrom(String(next));
+    }
+  }
+
+  /**
+   * Escape glob characters so the prefix is matched literally by SCAN
+   */
+  private escapePattern(value: string): string {
+    return value.replaceAll(/[*?[\]\\]/g, String.raw`\$&`);
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { RetryPolicy, parseRetryAfter, sleep } from "./retry.js";
+import {
+  AbortError,
+  ApiKeyError,
+  GeocodingError,
+  NetworkError,
+} from "./errors.js";
+
+describe("RetryPolicy", () => {
+  describe("isRetryable", () => {
+    const policy = new RetryPolicy();
+
+    it("should retry transient HTTP statuses", () => {
+      const error = new NetworkError("HTTP 503", undefined, {
+        httpStatus: 503,
+      });
+      assert.strictEqual(policy.isRetryable(error), true);
+    });
+
+    it("should not retry client HTTP errors", () => {
+      const error = new NetworkError("HTTP 404", undefined, {
+        httpStatus: 404,
+      });
+      assert.strictEqual(policy.isRetryable(error), false);
+    });
+
+    it("should retry connection failures", () => {
+      assert.strictEqual(
+        policy.isRetryable(new NetworkError("Request timed out")),
+        true
+      );
+      assert.strictEqual(
+        new RetryPolicy({ retryNetworkErrors: false }).isRetryable(
+          new NetworkError("Request timed out")
+        ),
+        false
+      );
+    });
+
+    it("should retry UNKNOWN_ERROR but not quota errors by default", () => {
+      assert.strictEqual(
+        policy.isRetryable(new GeocodingError("Oops", "UNKNOWN_ERROR")),
+        true
+      );
+      assert.strictEqual(
+        policy.isRetryable(new ApiKeyError("Quota", "OVER_QUERY_LIMIT")),
+        false
+      );
+    });
+
+    it("should not retry unrelated errors", () => {
+      assert.strictEqual(policy.isRetryable(new Error("boom")), false);
+    });
+  });
+
+  describe("getDelay", () => {
+    const error = new NetworkError("HTTP 503", undefined, { httpStatus: 503 });
+
+    it("should back off exponentially without jitter", () => {
+      const policy = new RetryPolicy({
+        maxAttempts: 5,
+        baseDelay: 100,
+        jitter: false,
+      });
+
+      assert.strictEqual(policy.getDelay(error, 1), 100);
+      assert.strictEqual(policy.getDelay(error, 2), 200);
+      assert.strictEqual(policy.getDelay(error, 3), 400);
+    });
+
+    it("should cap delays at maxDelay", () => {
+      const policy = new RetryPolicy({
+        maxAttempts: 10,
+        baseDelay: 100,
+        maxDelay: 300,
+        jitter: false,
+      });
+
+      assert.strictEqual(policy.getDelay(error, 5), 300);
+    });
+
+    it("should keep jittered delays within the backoff", () => {
+      const policy = new RetryPolicy({ baseDelay: 100 });
+
+      for (let i = 0; i < 20; i++) {
+        const delay = policy.getDelay(error, 2)!;
+        assert.ok(delay >= 0 && delay < 200);
+      }
+    });
+
+    it("should stop after maxAttempts", () => {
+      const policy = new RetryPolicy({ maxAttempts: 2 });
+
+      assert.notStrictEqual(policy.getDelay(error, 1), undefined);
+      assert.strictEqual(policy.getDelay(error, 2), undefined);
+    });
+
+    it("should honor Retry-After", () => {
+      const limited = new NetworkError("HTTP 429", undefined, {
+        httpStatus: 429,
+        retryAfter: 1500,
+      });
+
+      assert.strictEqual(new RetryPolicy().getDelay(limited, 1), 1500);
+      assert.strictEqual(
+        new RetryPolicy({ maxDelay: 1000 }).getDelay(limited, 1),
+        1000
+      );
+      assert.ok(
+        new RetryPolicy({ respectRetryAfter: false }).getDelay(limited, 1)! <
+          200
+      );
+    });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds", () => {
+    assert.strictEqual(parseRetryAfter("2"), 2000);
+  });
+
+  it("should parse HTTP dates", () => {
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = parseRetryAfter(date)!;
+    assert.ok(delay > 3000 && delay <= 5000);
+  });
+
+  it("should return undefined for missing or invalid values", () => {
+    assert.strictEqual(parseRetryAfter(null), undefined);
+    assert.strictEqual(parseRetryAfter("soon"), undefined);
+  });
+});
+
+describe("sleep", () => {
+  it("should reject with AbortError when aborted", async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+
+    controller.abort();
+
+    await assert.rejects(async () => pending, AbortError);
+  });
+});
@@ -0,0 +1,161 @@
+import type { GeocodingStatus } from "./types.js";
+import {
+  AbortError,
+  GeocodingError,
+  NetworkError,
+  RETRYABLE_HTTP_STATUSES,
+  RETRYABLE_STATUSES,
+  throwIfAborted,
+} from "./errors.js";
+
+/**
+ * Retry policy options
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 200) */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds between attempts (default: 10000) */
+  maxDelay?: number;
+  /** Randomize delays between 0 and the computed backoff (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableHttpStatuses?: number[];
+  /** Geocoding API statuses that trigger a retry (default: UNKNOWN_ERROR) */
+  retryableStatuses?: GeocodingStatus[];
+  /** Retry on connection failures and timeouts (default: true) */
+  retryNetworkErrors?: boolean;
+  /** Wait for the delay given by a `Retry-After` header if present (default: true) */
+  respectRetryAfter?: boolean;
+};
+
+/**
+ * Exponential backoff retry policy
+ *
+ * @example
+ * ```ts
+ * const policy = new RetryPolicy({ maxAttempts: 5, baseDelay: 100 });
+ *
+ * const delay = policy.getDelay(error, attempt);
+ * if (delay === undefined) {
+ *   throw error;
+ * }
+ * ```
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly jitter: boolean;
+  private readonly retryableHttpStatuses: number[];
+  private readonly retryableStatuses: GeocodingStatus[];
+  private readonly retryNetworkErrors: boolean;
+  private readonly respectRetryAfter: boolean;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.baseDelay = options.baseDelay ?? 200;
+    this.maxDelay = options.maxDelay ?? 10_000;
+    this.jitter = options.jitter ?? true;
+    this.retryableHttpStatuses =
+      options.retryableHttpStatuses ?? RETRYABLE_HTTP_STATUSES;
+    this.retryableStatuses = options.retryableStatuses ?? RETRYABLE_STATUSES;
+    this.retryNetworkErrors = options.retryNetworkErrors ?? true;
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+  }
+
+  /**
+   * Check whether an error is worth retrying
+   */
+  isRetryable(error: unknown): boolean {
+    if (error instanceof NetworkError) {
+      if (error.httpStatus === undefined) {
+        return this.retryNetworkErrors;
+      }
+
+      return this.retryableHttpStatuses.includes(error.httpStatus);
+    }
+
+    if (error instanceof GeocodingError && error.status !== undefined) {
+      return this.retryableStatuses.includes(error.status);
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the delay before the next attempt
+   *
+   * @param error - The error thrown by the failed attempt
+   * @param attempt - The number of the failed attempt (starting at 1)
+   * @returns Delay in milliseconds, or undefined if no retry should be made
+   */
+  getDelay(error: unknown, attempt: number): number | undefined {
+    if (attempt >= this.maxAttempts || !this.isRetryable(error)) {
+      return undefined;
+    }
+
+    if (
+      this.respectRetryAfter &&
+      error instanceof NetworkError &&
+      error.retryAfter !== undefined
+    ) {
+      return Math.min(error.retryAfter, this.maxDelay);
+    }
+
+    const backoff = Math.min(
+      this.maxDelay,
+      this.baseDelay * 2 ** (attempt - 1)
+    );
+
+    return this.jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+}
+
+/**
+ * Parse a `Retry-After` header value (seconds or HTTP date)
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @throws {AbortError} When the signal is aborted before the delay elapses
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortError(undefined, signal?.reason));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,194 @@
+import { describe, it, beforeEach, mock } from "node:test";
+import assert from "node:assert";
+import {
+  ReverseCache,
+  distanceInMeters,
+  encodeGeohash,
+} from "./reverseCache.js";
+import { Geocoder } from "./geocoder.js";
+import { createRawGeocodeResult } from "./testing.js";
+
+describe("encodeGeohash", () => {
+  it("should encode coordinates", () => {
+    assert.strictEqual(
+      encodeGeohash({ lat: 57.649_11, lng: 10.407_44 }, 11),
+      "u4pruydqqvj"
+    );
+    assert.strictEqual(
+      encodeGeohash({ lat: -25.382_708, lng: -49.265_506 }, 5),
+      "6gkzw"
+    );
+  });
+});
+
+describe("distanceInMeters", () => {
+  it("should measure great-circle distances", () => {
+    // One degree of latitude is about 111 km
+    const distance = distanceInMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 });
+    assert.ok(Math.abs(distance - 111_195) < 10);
+    assert.strictEqual(
+      distanceInMeters({ lat: 5, lng: 5 }, { lat: 5, lng: 5 }),
+      0
+    );
+  });
+});
+
+describe("ReverseCache", () => {
+  it("should snap coordinates to decimal places or geohash cells", () => {
+    const decimals = new ReverseCache({ snap: { decimals: 3 } });
+    const geohash = new ReverseCache({ snap: { geohash: 7 } });
+
+    assert.deepStrictEqual(
+      decimals.snap({ lat: 37.422_47, lng: -122.084_24 }),
+      {
+        latlng: { lat: 37.422, lng: -122.084 },
+      }
+    );
+    assert.deepStrictEqual(geohash.snap({ lat: 57.649_11, lng: 10.407_44 }), {
+      geohash: "u4pruyd",
+    });
+    assert.deepStrictEqual(new ReverseCache({}).snap({ lat: 1, lng: 2 }), {
+      latlng: { lat: 1, lng: 2 },
+    });
+  });
+
+  it("should find points within the radius with the same options, nearest first", () => {
+    const cache = new ReverseCache({ radius: 100 });
+    cache.remember("far", "a", { lat: 52.5, lng: 13.402 }); // ~136 m
+    cache.remember("near", "a", { lat: 52.5, lng: 13.4005 }); // ~34 m
+    cache.remember("nearest", "a", { lat: 52.5001, lng: 13.4 }); // ~11 m
+    cache.remember("other", "b", { lat: 52.5, lng: 13.4 });
+
+    assert.deepStrictEqual(cache.findNearby("a", { lat: 52.5, lng: 13.4 }), [
+      "nearest",
+      "near",
+    ]);
+
+    cache.forget("nearest");
+    assert.deepStrictEqual(cache.findNearby("a", { lat: 52.5, lng: 13.4 }), [
+      "near",
+    ]);
+  });
+
+  it("should evict the oldest points when full", () => {
+    const cache = new ReverseCache({ radius: 100, maxPoints: 2 });
+    cache.remember("first", "a", { lat: 0, lng: 0 });
+    cache.remember("second", "a", { lat: 0, lng: 0.0001 });
+    cache.remember("third", "a", { lat: 0, lng: 0.0002 });
+
+    assert.deepStrictEqual(cache.findNearby("a", { lat: 0, lng: 0 }).sort(), [
+      "second",
+      "third",
+    ]);
+  });
+
+  describe("with Geocoder", () => {
+    let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+    beforeEach(() => {
+      mockFetch = mock.fn<typeof globalThis.fetch>(
+        async () =>
+          new Response(
+            JSON.stringify({
+              status: "OK",
+              results: [createRawGeocodeResult()],
+            })
+          )
+      );
+    });
+
+    it("should share entries between points in a snapped cell", async () => {
+      const geocoder = new Geocoder({
+        apiKey: "test-key",
+        fetch: mockFetch,
+        rateLimiter: false,
+        reverseCache: { snap: { decimals: 3 } },
+      });
+
+      await geocoder.reverseGeocode({
+        latlng: { lat: 37.422_41, lng: -122.084_12 },
+      });
+      await geocoder.reverseGeocode({
+        latlng: { lat: 37.422_38, lng: -122.084_19 },
+      });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 1);
+      // Requests keep the exact coordinates
+      const url = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+      assert.strictEqual(url.searchParams.get("latlng"), "37.42241,-122.08412");
+
+      const stats = geocoder.getCacheStats();
+      assert.strictEqual(stats.reverseCacheEnabled, true);
+      assert.strictEqual(stats.hits, 1);
+      assert.strictEqual(stats.snappedHits, 1);
+      assert.ok(stats.totalSnapDistance > 5 && stats.totalSnapDistance < 10);
+
+      geocoder.dispose();
+    });
+
+    it("should serve cached points within the radius for the same result type", async () => {
+      const geocoder = new Geocoder({
+        apiKey: "test-key",
+        fetch: mockFetch,
+        rateLimiter: false,
+        reverseCache: { radius: 25 },
+      });
+      const resultType = ["street_address" as const];
+
+      await geocoder.reverseGeocode({
+        latlng: { lat: 52.5, lng: 13.4 },
+        resultType,
+      });
+      const nearby = await geocoder.reverseGeocode({
+        latlng: { lat: 52.5001, lng: 13.4 },
+        resultType,
+      });
+      await geocoder.reverseGeocode({ latlng: { lat: 52.5001, lng: 13.4 } });
+      await geocoder.reverseGeocode({
+        latlng: { lat: 52.501, lng: 13.4 },
+        resultType,
+      });
+
+      assert.strictEqual(nearby.length, 1);
+      assert.strictEqual(mockFetch.mock.callCount(), 3);
+
+      const stats = geocoder.getCacheStats();
+      assert.strictEqual(stats.nearbyHits, 1);
+      assert.strictEqual(stats.snappedHits, 0);
+      assert.ok(Math.abs(stats.totalSnapDistance - 11.1) < 0.1);
+
+      geocoder.dispose();
+    });
+
+    it("should forget points once the cache is cleared", async () => {
+      const geocoder = new Geocoder({
+        apiKey: "test-key",
+        fetch: mockFetch,
+        rateLimiter: false,
+        reverseCache: { radius: 25 },
+      });
+
+      await geocoder.reverseGeocode({ latlng: { lat: 52.5, lng: 13.4 } });
+      await geocoder.clearCache();
+      await geocoder.reverseGeocode({ latlng: { lat: 52.5001, lng: 13.4 } });
+
+      assert.strictEqual(mockFetch.mock.callCount(), 2);
+      assert.strictEqual(geocoder.getCacheStats().nearbyHits, 0);
+
+      geocoder.dispose();
+    });
+
+    it("should be disabled without a cache", () => {
+      const geocoder = new Geocoder({
+        apiKey: "test-key",
+        cache: false,
+        rateLimiter: false,
+        reverseCache: { radius: 25 },
+      });
+
+      assert.strictEqual(geocoder.getCacheStats().reverseCacheEnabled, false);
+
+      geocoder.dispose();
+    });
+  });
+});
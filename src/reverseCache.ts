@@ -0,0 +1,289 @@
+import type { LatLng } from "./types.js";
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+const EARTH_RADIUS = 6_371_008.8; // Mean radius in meters
+const METERS_PER_DEGREE = (Math.PI * EARTH_RADIUS) / 180;
+
+/**
+ * Reverse geocoding cache options. Set `snap`, `radius` or both.
+ */
+export type ReverseCacheOptions = {
+  /**
+   * Snap coordinates to a cell before building the cache key, so every point
+   * in a cell shares one entry. `{ decimals: 4 }` rounds to 4 decimal places
+   * (about 11 m), `{ geohash: 8 }` uses the 8-character geohash cell (about
+   * 38 m × 19 m). Requests still send the exact coordinates.
+   * Default: exact coordinates
+   */
+  snap?: { decimals: number } | { geohash: number };
+  /**
+   * On a cache miss, serve the cached results of the nearest point within
+   * this many meters that was looked up with the same options, e.g. the same
+   * `resultType`. Default: off
+   */
+  radius?: number;
+  /** Maximum number of cached points remembered for nearby lookups (default: 10000) */
+  maxPoints?: number;
+};
+
+/**
+ * Cumulative reverse cache counters
+ */
+export type ReverseCacheStats = {
+  /** Cache hits on a snapped key that was cached for other coordinates */
+  snappedHits: number;
+  /** Cache misses served with the results of a cached point within `radius` */
+  nearbyHits: number;
+  /** Total distance between the requested and cached coordinates of snapped and nearby hits, in meters */
+  totalSnapDistance: number;
+};
+
+/**
+ * Coordinates a cache entry was stored for
+ */
+type CachedPoint = {
+  cacheKey: string;
+  /** Options other than the coordinates, e.g. language and result type */
+  group: string;
+  latlng: LatLng;
+  cell: string;
+};
+
+/**
+ * Coordinate snapping and nearby lookups for reverse geocoding cache keys
+ *
+ * Remembers the exact coordinates of recently cached entries in a grid of
+ * `radius`-sized cells, so nearby lookups only measure points in the
+ * surrounding cells.
+ */
+export class ReverseCache {
+  private readonly snapOptions: ReverseCacheOptions["snap"];
+  private readonly radius: number | undefined;
+  private readonly maxPoints: number;
+  /** Cell size in degrees of latitude */
+  private readonly cellSize: number;
+  /** Cached points by cache key, oldest first */
+  private readonly points = new Map<string, CachedPoint>();
+  private readonly cells = new Map<string, Set<CachedPoint>>();
+  private readonly stats: ReverseCacheStats = {
+    snappedHits: 0,
+    nearbyHits: 0,
+    totalSnapDistance: 0,
+  };
+
+  constructor(options: ReverseCacheOptions) {
+    this.snapOptions = options.snap;
+    this.radius = options.radius;
+    this.maxPoints = options.maxPoints ?? 10_000;
+    this.cellSize = (options.radius ?? 100) / METERS_PER_DEGREE;
+  }
+
+  /**
+   * Get the cache key fields for coordinates: the snapped `latlng`, or a
+   * `geohash` cell
+   */
+  snap(latlng: LatLng): { latlng: LatLng } | { geohash: string } {
+    const snap = this.snapOptions;
+    if (!snap) {
+      return { latlng };
+    }
+
+    if ("geohash" in snap) {
+      return { geohash: encodeGeohash(latlng, snap.geohash) };
+    }
+
+    const factor = 10 ** snap.decimals;
+    return {
+      latlng: {
+        lat: Math.round(latlng.lat * factor) / factor,
+        lng: Math.round(latlng.lng * factor) / factor,
+      },
+    };
+  }
+
+  /**
+   * Record a cache hit, counting it as snapped when the entry was cached for
+   * other coordinates
+   */
+  recordHit(cacheKey: string, latlng: LatLng): void {
+    const point = this.points.get(cacheKey);
+    if (
+      !point ||
+      (point.latlng.lat === latlng.lat && point.latlng.lng === latlng.lng)
+    ) {
+      return;
+    }
+
+    this.stats.snappedHits++;
+    this.stats.totalSnapDistance += distanceInMeters(point.latlng, latlng);
+  }
+
+  /**
+   * Find the cache keys of points within `radius` looked up with the same
+   * options, nearest first
+   */
+  findNearby(group: string, latlng: LatLng): string[] {
+    if (this.radius === undefined) {
+      return [];
+    }
+
+    const row = Math.floor(latlng.lat / this.cellSize);
+    const column = Math.floor(latlng.lng / this.cellSize);
+    // Cells narrow towards the poles, so search more columns there
+    const cosine = Math.max(Math.cos((latlng.lat * Math.PI) / 180), 0.01);
+    const columns = Math.ceil(1 / cosine);
+
+    const nearby: Array<{ cacheKey: string; distance: number }> = [];
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dColumn = -columns; dColumn <= columns; dColumn++) {
+        const cell = this.cells.get(`${row + dRow}:${column + dColumn}`);
+
+        for (const point of cell ?? []) {
+          const distance = distanceInMeters(point.latlng, latlng);
+          if (point.group === group && distance <= this.radius) {
+            nearby.push({ cacheKey: point.cacheKey, distance });
+          }
+        }
+      }
+    }
+
+    return nearby
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ cacheKey }) => cacheKey);
+  }
+
+  /**
+   * Record a cache miss served with the results of a nearby point
+   */
+  recordNearbyHit(cacheKey: string, latlng: LatLng): void {
+    const point = this.points.get(cacheKey);
+    this.stats.nearbyHits++;
+    this.stats.totalSnapDistance += point
+      ? distanceInMeters(point.latlng, latlng)
+      : 0;
+  }
+
+  /**
+   * Remember the coordinates a cache entry was stored for, evicting the
+   * oldest point when full
+   */
+  remember(cacheKey: string, group: string, latlng: LatLng): void {
+    this.forget(cacheKey);
+
+    if (this.points.size >= this.maxPoints) {
+      const oldest = this.points.keys().next().value;
+      if (oldest !== undefined) {
+        this.forget(oldest);
+      }
+    }
+
+    const point: CachedPoint = {
+      cacheKey,
+      group,
+      latlng,
+      cell: `${Math.floor(latlng.lat / this.cellSize)}:${Math.floor(
+        latlng.lng / this.cellSize
+      )}`,
+    };
+
+    this.points.set(cacheKey, point);
+
+    let cell = this.cells.get(point.cell);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(point.cell, cell);
+    }
+
+    cell.add(point);
+  }
+
+  /**
+   * Forget a point, e.g. once its cache entry expired
+   */
+  forget(cacheKey: string): void {
+    const point = this.points.get(cacheKey);
+    if (!point) {
+      return;
+    }
+
+    this.points.delete(cacheKey);
+
+    const cell = this.cells.get(point.cell);
+    cell?.delete(point);
+    if (cell?.size === 0) {
+      this.cells.delete(point.cell);
+    }
+  }
+
+  /**
+   * Forget all points
+   */
+  clear(): void {
+    this.points.clear();
+    this.cells.clear();
+  }
+
+  /**
+   * Get cumulative snapped and nearby hit counters
+   */
+  getStats(): ReverseCacheStats {
+    return { ...this.stats };
+  }
+}
+
+/**
+ * Encode coordinates as a geohash of the given length (1-12 characters)
+ *
+ * @example
+ * ```ts
+ * encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11); // "u4pruydqqvj"
+ * ```
+ */
+export function encodeGeohash(latlng: LatLng, length: number): string {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let even = true;
+
+  while (hash.length < length) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    const range = even ? lng : lat;
+    const coordinate = even ? latlng.lng : latlng.lat;
+    const middle = (range[0] + range[1]) / 2;
+
+    value *= 2;
+    if (coordinate >= middle) {
+      value += 1;
+      range[0] = middle;
+    } else {
+      range[1] = middle;
+    }
+
+    even = !even;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export function distanceInMeters(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
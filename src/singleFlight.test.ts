@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { SingleFlight } from "./singleFlight.js";
+import { AbortError } from "./errors.js";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((_resolve, _reject) => {
+    resolve = _resolve;
+    reject = _reject;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("SingleFlight", () => {
+  it("should share one execution between concurrent callers", async () => {
+    const flights = new SingleFlight<string>();
+    const pending = deferred<string>();
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      return pending.promise;
+    };
+
+    const first = flights.run("key", fn);
+    const second = flights.run("key", fn);
+    assert.strictEqual(flights.size, 1);
+
+    pending.resolve("value");
+
+    assert.deepStrictEqual(await Promise.all([first, second]), [
+      "value",
+      "value",
+    ]);
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(flights.size, 0);
+  });
+
+  it("should run different keys separately", async () => {
+    const flights = new SingleFlight<string>();
+    let calls = 0;
+
+    await Promise.all([
+      flights.run("a", async () => `${calls++}`),
+      flights.run("b", async () => `${calls++}`),
+    ]);
+
+    assert.strictEqual(calls, 2);
+  });
+
+  it("should propagate errors to every caller", async () => {
+    const flights = new SingleFlight<string>();
+    const pending = deferred<string>();
+
+    const first = flights.run("key", async () => pending.promise);
+    const second = flights.run("key", async () => pending.promise);
+    pending.reject(new Error("boom"));
+
+    await assert.rejects(async () => first, /boom/);
+    await assert.rejects(async () => second, /boom/);
+    assert.strictEqual(flights.size, 0);
+  });
+
+  it("should start a new execution after the previous one settles", async () => {
+    const flights = new SingleFlight<number>();
+    let calls = 0;
+
+    await flights.run("key", async () => ++calls);
+    await flights.run("key", async () => ++calls);
+
+    assert.strictEqual(calls, 2);
+  });
+
+  it("should detach an aborted caller without affecting others", async () => {
+    const flights = new SingleFlight<string>();
+    const pending = deferred<string>();
+    const controller = new AbortController();
+    let sharedSignal: AbortSignal | undefined;
+
+    const first = flights.run(
+      "key",
+      async (signal) => {
+        sharedSignal = signal;
+        return pending.promise;
+      },
+      controller.signal
+    );
+    const second = flights.run("key", async () => pending.promise);
+
+    controller.abort();
+    await assert.rejects(async () => first, AbortError);
+    assert.strictEqual(sharedSignal?.aborted, false);
+
+    pending.resolve("value");
+    assert.strictEqual(await second, "value");
+  });
+
+  it("should abort the execution when every caller has left", async () => {
+    const flights = new SingleFlight<string>();
+    const controller = new AbortController();
+    let sharedSignal: AbortSignal | undefined;
+
+    const first = flights.run(
+      "key",
+      async (signal) => {
+        sharedSignal = signal;
+        return new Promise<string>(() => undefined);
+      },
+      controller.signal
+    );
+
+    controller.abort();
+    await assert.rejects(async () => first, AbortError);
+    assert.strictEqual(sharedSignal?.aborted, true);
+  });
+
+  it("should start a fresh execution for callers joining after an abort", async () => {
+    const flights = new SingleFlight<string>();
+    const controller = new AbortController();
+    const abandoned = deferred<string>();
+    const fresh = deferred<string>();
+
+    const first = flights.run(
+      "key",
+      async () => abandoned.promise,
+      controller.signal
+    );
+    controller.abort();
+    await assert.rejects(async () => first, AbortError);
+
+    const second = flights.run("key", async () => fresh.promise);
+
+    // The abandoned execution settling must not forget the fresh one
+    abandoned.resolve("stale");
+    await new Promise((resolve) => {
+      setImmediate(resolve);
+    });
+    assert.strictEqual(flights.size, 1);
+
+    fresh.resolve("fresh");
+    assert.strictEqual(await second, "fresh");
+    assert.strictEqual(flights.size, 0);
+  });
+});
@@ -0,0 +1,141 @@
+import { AbortError, throwIfAborted } from "./errors.js";
+
+type Flight<T> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  settled: boolean;
+};
+
+/**
+ * Coalesces concurrent calls with the same key into a single execution
+ *
+ * Every caller shares the outcome of the first call, including its error.
+ * Callers may pass their own AbortSignal: aborting it only detaches that
+ * caller, and the shared execution is aborted once every caller has left.
+ *
+ * @example
+ * ```ts
+ * const flights = new SingleFlight<GeocodeResult[]>();
+ *
+ * // Both calls share one request
+ * const [a, b] = await Promise.all([
+ *   flights.run(key, (signal) => fetchResults(signal)),
+ *   flights.run(key, (signal) => fetchResults(signal)),
+ * ]);
+ * ```
+ */
+export class SingleFlight<T> {
+  private readonly flights = new Map<string, Flight<T>>();
+
+  /**
+   * Run `fn` for `key`, or join the execution already in flight
+   * @param key - Key identifying identical calls
+   * @param fn - Function to execute, given a signal aborted when every caller has left
+   * @param signal - Optional signal that detaches this caller
+   * @throws {AbortError} When `signal` is aborted before the shared call settles
+   */
+  async run(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    const flight = this.flights.get(key) ?? this.start(key, fn);
+
+    flight.waiters++;
+    try {
+      return await this.wait(flight.promise, signal);
+    } finally {
+      flight.waiters--;
+
+      // Nobody is waiting for the result anymore, so later callers start a
+      // fresh execution instead of joining the aborted one
+      if (flight.waiters === 0 && !flight.settled) {
+        this.forget(key, flight);
+        flight.controller.abort(signal?.reason);
+      }
+    }
+  }
+
+  /**
+   * Get the number of executions currently in flight
+   */
+  get size(): number {
+    return this.flights.size;
+  }
+
+  /**
+   * Start a new shared execution
+   */
+  private start(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Flight<T> {
+    let adopt!: (execution: Promise<T>) => void;
+    const flight: Flight<T> = {
+      controller: new AbortController(),
+      waiters: 0,
+      settled: false,
+      promise: new Promise<T>((resolve) => {
+        adopt = resolve;
+      }),
+    };
+
+    // Register the flight before running `fn`, which may settle synchronously
+    this.flights.set(key, flight);
+    adopt(this.execute(key, flight, fn));
+
+    return flight;
+  }
+
+  /**
+   * Execute `fn` and forget the flight once it settles
+   */
+  private async execute(
+    key: string,
+    flight: Flight<T>,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await fn(flight.controller.signal);
+    } finally {
+      flight.settled = true;
+      this.forget(key, flight);
+    }
+  }
+
+  /**
+   * Remove a flight, unless a newer flight has replaced it
+   */
+  private forget(key: string, flight: Flight<T>): void {
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+  }
+
+  /**
+   * Wait for a shared promise, rejecting early if the caller's signal is aborted
+   */
+  private async wait(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_resolve, reject) => {
+      onAbort = () => {
+        reject(new AbortError(undefined, signal.reason));
+      };
+
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([promise, aborted]);
+    } finally {
+      signal.removeEventListener("abort", onAbort!);
+    }
+  }
+}
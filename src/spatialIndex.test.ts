@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { SpatialIndex, boundingBoxOf } from "./spatialIndex.js";
+
+describe("SpatialIndex", () => {
+  // 1° cells covering lat 0..30, lng 0..40
+  const cells = Array.from({ length: 30 * 40 }, (_, index) => {
+    const lat = Math.floor(index / 40);
+    const lng = index % 40;
+
+    return {
+      box: { minLat: lat, minLng: lng, maxLat: lat + 1, maxLng: lng + 1 },
+      value: `${lat}:${lng}`,
+    };
+  });
+
+  it("should find the boxes containing a point", () => {
+    const index = new SpatialIndex(cells, 4);
+
+    assert.strictEqual(index.size, 1200);
+    assert.deepStrictEqual(index.search({ lat: 12.5, lng: 33.5 }), ["12:33"]);
+    assert.deepStrictEqual(index.search({ lat: 12, lng: 33 }).sort(), [
+      "11:32",
+      "11:33",
+      "12:32",
+      "12:33",
+    ]);
+    assert.deepStrictEqual(index.search({ lat: -1, lng: 5 }), []);
+  });
+
+  it("should handle an empty index", () => {
+    assert.deepStrictEqual(new SpatialIndex([]).search({ lat: 0, lng: 0 }), []);
+  });
+
+  it("should compute bounding boxes", () => {
+    assert.deepStrictEqual(
+      boundingBoxOf([
+        { lat: 1, lng: 5 },
+        { lat: -2, lng: 7 },
+        { lat: 3, lng: 6 },
+      ]),
+      { minLat: -2, minLng: 5, maxLat: 3, maxLng: 7 }
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import type { LatLng } from "./types.js";
+
+/**
+ * Axis-aligned bounding box in degrees
+ */
+export type BoundingBox = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+};
+
+/**
+ * A value indexed by its bounding box
+ */
+export type SpatialEntry<T> = {
+  box: BoundingBox;
+  value: T;
+};
+
+type IndexNode<T> =
+  | { box: BoundingBox; entries: Array<SpatialEntry<T>> }
+  | { box: BoundingBox; children: Array<IndexNode<T>> };
+
+/**
+ * Static R-tree over bounding boxes, bulk loaded with Sort-Tile-Recursive
+ * packing
+ *
+ * Lookups return the values whose bounding box contains a point, so callers
+ * still test the exact geometry of each candidate.
+ *
+ * @example
+ * ```ts
+ * const index = new SpatialIndex([{ box: boundingBoxOf(ring), value: feature }]);
+ * const candidates = index.search({ lat: 52.52, lng: 13.4 });
+ * ```
+ */
+export class SpatialIndex<T> {
+  private readonly root: IndexNode<T> | undefined;
+  private readonly count: number;
+
+  /**
+   * @param entries - Values and their bounding boxes
+   * @param nodeSize - Maximum number of children per node (default: 16)
+   */
+  constructor(entries: Array<SpatialEntry<T>>, nodeSize = 16) {
+    this.count = entries.length;
+
+    let nodes: Array<IndexNode<T>> = pack(entries, nodeSize).map((group) => ({
+      box: mergeBoxes(group),
+      entries: group,
+    }));
+    while (nodes.length > 1) {
+      nodes = pack(nodes, nodeSize).map((group) => ({
+        box: mergeBoxes(group),
+        children: group,
+      }));
+    }
+
+    this.root = nodes[0];
+  }
+
+  /**
+   * Number of indexed values
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Find the values whose bounding box contains a point
+   */
+  search(point: LatLng): T[] {
+    const found: T[] = [];
+    const stack = this.root ? [this.root] : [];
+
+    for (let node = stack.pop(); node; node = stack.pop()) {
+      if (!containsPoint(node.box, point)) {
+        continue;
+      }
+
+      if ("children" in node) {
+        stack.push(...node.children);
+        continue;
+      }
+
+      for (const entry of node.entries) {
+        if (containsPoint(entry.box, point)) {
+          found.push(entry.value);
+        }
+      }
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Get the bounding box of a list of positions
+ */
+export function boundingBoxOf(positions: Iterable<LatLng>): BoundingBox {
+  const box: BoundingBox = {
+    minLat: Infinity,
+    minLng: Infinity,
+    maxLat: -Infinity,
+    maxLng: -Infinity,
+  };
+
+  for (const { lat, lng } of positions) {
+    box.minLat = Math.min(box.minLat, lat);
+    box.minLng = Math.min(box.minLng, lng);
+    box.maxLat = Math.max(box.maxLat, lat);
+    box.maxLng = Math.max(box.maxLng, lng);
+  }
+
+  return box;
+}
+
+/**
+ * Check whether a bounding box contains a point, including its edges
+ */
+export function containsPoint(box: BoundingBox, point: LatLng): boolean {
+  return (
+    point.lat >= box.minLat &&
+    point.lat <= box.maxLat &&
+    point.lng >= box.minLng &&
+    point.lng <= box.maxLng
+  );
+}
+
+/**
+ * Group boxes into nodes: sort into vertical slices by longitude, then fill
+ * nodes from each slice by latitude
+ */
+function pack<T extends { box: BoundingBox }>(
+  items: T[],
+  nodeSize: number
+): T[][] {
+  const nodeCount = Math.ceil(items.length / nodeSize);
+  const sliceSize = nodeSize * Math.ceil(Math.sqrt(nodeCount));
+  const groups: T[][] = [];
+
+  const byLng = [...items].sort((a, b) => centerLng(a.box) - centerLng(b.box));
+  for (let start = 0; start < byLng.length; start += sliceSize) {
+    const slice = byLng
+      .slice(start, start + sliceSize)
+      .sort((a, b) => centerLat(a.box) - centerLat(b.box));
+
+    for (let index = 0; index < slice.length; index += nodeSize) {
+      groups.push(slice.slice(index, index + nodeSize));
+    }
+  }
+
+  return groups;
+}
+
+function mergeBoxes(items: Array<{ box: BoundingBox }>): BoundingBox {
+  return {
+    minLat: Math.min(...items.map(({ box }) => box.minLat)),
+    minLng: Math.min(...items.map(({ box }) => box.minLng)),
+    maxLat: Math.max(...items.map(({ box }) => box.maxLat)),
+    maxLng: Math.max(...items.map(({ box }) => box.maxLng)),
+  };
+}
+
+function centerLat(box: BoundingBox): number {
+  return (box.minLat + box.maxLat) / 2;
+}
+
+function centerLng(box: BoundingBox): number {
+  return (box.minLng + box.maxLng) / 2;
+}
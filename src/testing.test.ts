@@ -0,0 +1,165 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { MockGeocoder, createRawGeocodeResult } from "./testing.js";
+import { Geocoder } from "./geocoder.js";
+import {
+  ApiKeyError,
+  NetworkError,
+  ResponseParseError,
+  TimeoutError,
+} from "./errors.js";
+
+const berlin = createRawGeocodeResult({
+  formattedAddress: "Berlin, Germany",
+  location: { lat: 52.52, lng: 13.405 },
+  placeId: "ChIJAVkDPzdOqEcRcDteW0YgIQQ",
+  types: ["locality", "political"],
+});
+
+describe("MockGeocoder", () => {
+  let mock: MockGeocoder;
+  let geocoder: Geocoder;
+
+  beforeEach(() => {
+    mock = new MockGeocoder();
+    geocoder = new Geocoder({
+      apiKey: "test-api-key",
+      cache: false,
+      rateLimiter: false,
+      fetch: mock.fetch,
+    });
+  });
+
+  afterEach(async () => {
+    geocoder.dispose();
+    await mock.close();
+  });
+
+  it("should serve canned results by address, latlng and place ID", async () => {
+    mock
+      .respond({ address: "Berlin" }, { results: [berlin] })
+      .respond({ latlng: { lat: 52.52, lng: 13.405 } }, { results: [berlin] })
+      .respond({ placeId: berlin.place_id }, { results: [berlin] });
+
+    const [byAddress] = await geocoder.geocode({ address: "  berlin " });
+    const [byLatLng] = await geocoder.reverseGeocode({
+      latlng: { lat: 52.52, lng: 13.405 },
+    });
+    const [byPlaceId] = await geocoder.geocodeByPlaceId(berlin.place_id);
+
+    assert.strictEqual(byAddress.formattedAddress, "Berlin, Germany");
+    assert.strictEqual(byLatLng.placeId, berlin.place_id);
+    assert.deepStrictEqual(byPlaceId.geometry.location, {
+      lat: 52.52,
+      lng: 13.405,
+    });
+  });
+
+  it("should answer unknown queries with ZERO_RESULTS", async () => {
+    const results = await geocoder.geocode({ address: "Nowhere" });
+
+    assert.deepStrictEqual(results, []);
+    assert.strictEqual(mock.calls[0].status, "ZERO_RESULTS");
+  });
+
+  it("should simulate API statuses, HTTP errors and malformed bodies", async () => {
+    mock
+      .respond(
+        { address: "denied" },
+        { status: "REQUEST_DENIED", errorMessage: "Invalid key" }
+      )
+      .respond({ address: "down" }, { httpStatus: 503 })
+      .respond({ address: "garbled" }, { body: "<html>" });
+
+    await assert.rejects(
+      async () => geocoder.geocode({ address: "denied" }),
+      (error: unknown) =>
+        error instanceof ApiKeyError && error.errorMessage === "Invalid key"
+    );
+    await assert.rejects(
+      async () => geocoder.geocode({ address: "down" }),
+      (error: unknown) =>
+        error instanceof NetworkError && error.httpStatus === 503
+    );
+    await assert.rejects(
+      async () => geocoder.geocode({ address: "garbled" }),
+      ResponseParseError
+    );
+    assert.deepStrictEqual(
+      mock.calls.map((call) => call.status),
+      ["REQUEST_DENIED", "HTTP_503", "CUSTOM_BODY"]
+    );
+  });
+
+  it("should apply responses in order, each for `times` requests", async () => {
+    const retrying = new Geocoder({
+      apiKey: "test",
+      cache: false,
+      rateLimiter: false,
+      retry: { baseDelay: 1, jitter: false },
+      fetch: mock.fetch,
+    });
+
+    mock
+      .respond({ address: "Berlin" }, { httpStatus: 503, times: 2 })
+      .respond({ address: "Berlin" }, { results: [berlin] });
+
+    const results = await retrying.geocode({ address: "Berlin" });
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(mock.calls.length, 3);
+
+    retrying.dispose();
+  });
+
+  it("should simulate latency", async () => {
+    const slow = new Geocoder({
+      apiKey: "test",
+      cache: false,
+      rateLimiter: false,
+      timeout: 20,
+      fetch: mock.fetch,
+    });
+
+    mock.respond({ address: "Berlin" }, { results: [berlin], delay: 1000 });
+
+    await assert.rejects(
+      async () => slow.geocode({ address: "Berlin" }),
+      TimeoutError
+    );
+
+    slow.dispose();
+  });
+
+  it("should record calls with their parameters", async () => {
+    await geocoder.geocode({ address: "Berlin", language: "de" });
+
+    assert.strictEqual(mock.calls.length, 1);
+    assert.strictEqual(mock.calls[0].address, "Berlin");
+    assert.strictEqual(mock.calls[0].parameters.language, "de");
+    assert.strictEqual(mock.calls[0].parameters.key, "test-api-key");
+
+    mock.reset();
+    assert.strictEqual(mock.calls.length, 0);
+  });
+
+  it("should serve over HTTP when listening", async () => {
+    const baseUrl = await mock.listen();
+    const remote = new Geocoder({
+      apiKey: "test",
+      cache: false,
+      rateLimiter: false,
+      baseUrl,
+    });
+
+    mock.respond({ address: "Berlin" }, { results: [berlin] });
+
+    const [result] = await remote.geocode({ address: "Berlin" });
+
+    assert.strictEqual(mock.baseUrl, baseUrl);
+    assert.strictEqual(result.formattedAddress, "Berlin, Germany");
+    assert.strictEqual(mock.calls[0].address, "Berlin");
+
+    remote.dispose();
+  });
+});
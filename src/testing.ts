@@ -0,0 +1,442 @@
+/**
+ * Test helpers for code that uses the geocoder
+ *
+ * @example
+ * ```ts
+ * import { MockGeocoder, createRawGeocodeResult } from '@saksofon997/geocode/testing';
+ *
+ * const mock = new MockGeocoder();
+ * mock.respond({ address: 'Berlin' }, {
+ *   results: [createRawGeocodeResult({ formattedAddress: 'Berlin, Germany', location: { lat: 52.52, lng: 13.405 } })],
+ * });
+ *
+ * const geocoder = new Geocoder({ apiKey: 'test', fetch: mock.fetch });
+ * // or: new Geocoder({ apiKey: 'test', baseUrl: await mock.listen() });
+ * ```
+ * @packageDocumentation
+ */
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type {
+  FetchFunction,
+  GeocodingStatus,
+  LatLng,
+  LocationType,
+  RawAddressComponent,
+  RawGeocodeResponse,
+  RawGeocodeResult,
+} from "./types.js";
+
+/**
+ * Request a canned response applies to
+ */
+export type MockQuery =
+  | { address: string }
+  | { latlng: LatLng }
+  | { placeId: string };
+
+/**
+ * A canned response
+ */
+export type MockResponse = {
+  /** Geocoding API status (default: "OK" if `results` is non-empty, otherwise "ZERO_RESULTS") */
+  status?: GeocodingStatus;
+  results?: RawGeocodeResult[];
+  /** Sent as `error_message` */
+  errorMessage?: string;
+  /** Respond with this HTTP status and `body` instead of a Geocoding API response */
+  httpStatus?: number;
+  /** Raw response body, e.g. to simulate malformed JSON */
+  body?: string;
+  headers?: Record<string, string>;
+  /** Delay before responding, in milliseconds (overrides default) */
+  delay?: number;
+  /** Number of requests this response answers before the next one applies (default: unlimited) */
+  times?: number;
+};
+
+/**
+ * MockGeocoder options
+ */
+export type MockGeocoderOptions = {
+  /** Delay before every response, in milliseconds (default: 0) */
+  delay?: number;
+  /** Response to requests that match no canned response (default: ZERO_RESULTS) */
+  fallback?: MockResponse;
+};
+
+/**
+ * A request received by the mock
+ */
+export type MockGeocoderCall = {
+  /** Full request URL, including credentials */
+  url: string;
+  /** Query parameters */
+  parameters: Record<string, string>;
+  address?: string;
+  latlng?: LatLng;
+  placeId?: string;
+  /** Geocoding API status sent, `HTTP_<code>` for HTTP errors, or `CUSTOM_BODY` for raw bodies */
+  status: string;
+};
+
+type Reply = {
+  /** Geocoding API status or `HTTP_<code>`, for the call log */
+  label: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  delay: number;
+};
+
+/**
+ * Offline stand-in for the Geocoding API
+ *
+ * Serves canned responses keyed by address, coordinates or place ID and
+ * records every request. Use it in-process through `fetch`, or start a local
+ * HTTP server with `listen()` and point `baseUrl` at it.
+ *
+ * @example
+ * ```ts
+ * const mock = new MockGeocoder();
+ * mock
+ *   .respond({ address: 'Berlin' }, { httpStatus: 503, times: 1 })
+ *   .respond({ address: 'Berlin' }, { results: [createRawGeocodeResult()] });
+ *
+ * const geocoder = new Geocoder({ apiKey: 'test', fetch: mock.fetch, retry: true });
+ * await geocoder.geocode({ address: 'Berlin' }); // retried once
+ *
+ * assert.strictEqual(mock.calls.length, 2);
+ * ```
+ */
+export class MockGeocoder {
+  /** Requests received so far, oldest first */
+  readonly calls: MockGeocoderCall[] = [];
+
+  /**
+   * Fetch function to pass as `GeocoderConfig.fetch`
+   */
+  readonly fetch: FetchFunction;
+
+  private readonly responses = new Map<string, MockResponse[]>();
+  private readonly delay: number;
+  private readonly fallback: MockResponse;
+  private readonly pending = new Set<AbortController>();
+  private server: Server | null = null;
+  private url: string | null = null;
+
+  constructor(options: MockGeocoderOptions = {}) {
+    this.delay = options.delay ?? 0;
+    this.fallback = options.fallback ?? {};
+    this.fetch = async (url, init) => {
+      const reply = this.reply(new URL(url));
+      await this.wait(reply.delay, init.signal ?? undefined);
+
+      return new Response(reply.body, {
+        status: reply.status,
+        headers: reply.headers,
+      });
+    };
+  }
+
+  /**
+   * Base URL of the HTTP server started by `listen()`
+   * @throws {Error} When the server is not listening
+   */
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error("MockGeocoder is not listening; call listen() first");
+    }
+
+    return this.url;
+  }
+
+  /**
+   * Register a canned response. Responses for the same query apply in
+   * registration order, each for `times` requests.
+   */
+  respond(query: MockQuery, response: MockResponse): this {
+    const key = queryKey(query);
+    const queue = this.responses.get(key) ?? [];
+    queue.push({ ...response });
+    this.responses.set(key, queue);
+
+    return this;
+  }
+
+  /**
+   * Forget all canned responses and recorded calls
+   */
+  reset(): void {
+    this.responses.clear();
+    this.calls.length = 0;
+  }
+
+  /**
+   * Start a local HTTP server
+   * @param port - Port to listen on (default: a free port)
+   * @returns The base URL to pass as `GeocoderConfig.baseUrl`
+   */
+  async listen(port = 0): Promise<string> {
+    if (this.url) {
+      return this.url;
+    }
+
+    const server = createServer((request, response) => {
+      void this.serve(request, response);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    this.server = server;
+    this.url = `http://127.0.0.1:${boundPort}/maps/api/geocode/json`;
+
+    return this.url;
+  }
+
+  /**
+   * Stop the HTTP server, dropping delayed responses
+   */
+  async close(): Promise<void> {
+    for (const controller of this.pending) {
+      controller.abort();
+    }
+
+    const { server } = this;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    this.url = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      server.close(() => {
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Answer a request to the HTTP server
+   */
+  private async serve(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const reply = this.reply(new URL(request.url ?? "/", "http://localhost"));
+    const controller = new AbortController();
+    response.on("close", () => {
+      controller.abort();
+    });
+
+    try {
+      await this.wait(reply.delay, controller.signal);
+    } catch {
+      // The client went away or the server was closed
+      return;
+    }
+
+    response.writeHead(reply.status, reply.headers).end(reply.body);
+  }
+
+  /**
+   * Record a request and pick its response
+   */
+  private reply(url: URL): Reply {
+    const parameters = Object.fromEntries(url.searchParams);
+    const { address, latlng, place_id: placeId } = parameters;
+    const coordinates = latlng === undefined ? undefined : parseLatLng(latlng);
+
+    let query: MockQuery | undefined;
+    if (placeId !== undefined) {
+      query = { placeId };
+    } else if (coordinates) {
+      query = { latlng: coordinates };
+    } else if (address !== undefined) {
+      query = { address };
+    }
+
+    const response = (query && this.take(queryKey(query))) ?? this.fallback;
+    const reply = toReply(response, this.delay);
+
+    this.calls.push({
+      url: url.toString(),
+      parameters,
+      address,
+      latlng: coordinates,
+      placeId,
+      status: reply.label,
+    });
+
+    return reply;
+  }
+
+  /**
+   * Take the next canned response for a key, consuming one of its `times`
+   */
+  private take(key: string): MockResponse | undefined {
+    const queue = this.responses.get(key);
+    const response = queue?.[0];
+    if (!response) {
+      return undefined;
+    }
+
+    if (response.times !== undefined && --response.times <= 0) {
+      queue.shift();
+    }
+
+    return response;
+  }
+
+  /**
+   * Wait for a response delay, rejecting like `fetch` when `signal` is aborted
+   */
+  private async wait(delay: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (delay <= 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.pending.add(controller);
+
+    const onSignalAbort = () => {
+      controller.abort(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", onSignalAbort, { once: true });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeoutId = setTimeout(resolve, delay);
+        controller.signal.addEventListener(
+          "abort",
+          () => {
+            clearTimeout(timeoutId);
+            reject(controller.signal.reason as Error);
+          },
+          { once: true }
+        );
+      });
+    } finally {
+      signal?.removeEventListener("abort", onSignalAbort);
+      this.pending.delete(controller);
+    }
+  }
+}
+
+/**
+ * Options for building a raw geocoding result
+ */
+export type RawGeocodeResultOptions = {
+  /** (default: "1600 Amphitheatre Parkway, Mountain View, CA 94043, USA") */
+  formattedAddress?: string;
+  /** (default: Googleplex coordinates) */
+  location?: LatLng;
+  /** (default: "ROOFTOP") */
+  locationType?: LocationType;
+  /** (default: "ChIJ2eUgeAK6j4ARbn5u_wAGqWA") */
+  placeId?: string;
+  /** (default: ["street_address"]) */
+  types?: string[];
+  /** Address components, e.g. `{ types: ["locality", "political"], long_name: "Berlin", short_name: "Berlin" }` (default: none) */
+  addressComponents?: RawAddressComponent[];
+  partialMatch?: boolean;
+};
+
+/**
+ * Build a valid raw Geocoding API result for canned responses
+ */
+export function createRawGeocodeResult(
+  options: RawGeocodeResultOptions = {}
+): RawGeocodeResult {
+  const location = options.location ?? {
+    lat: 37.422_476_4,
+    lng: -122.084_249_9,
+  };
+
+  return {
+    address_components: options.addressComponents ?? [],
+    formatted_address:
+      options.formattedAddress ??
+      "1600 Amphitheatre Parkway, Mountain View, CA 94043, USA",
+    geometry: {
+      location,
+      location_type: options.locationType ?? "ROOFTOP",
+      viewport: {
+        northeast: { lat: location.lat + 0.001, lng: location.lng + 0.001 },
+        southwest: { lat: location.lat - 0.001, lng: location.lng - 0.001 },
+      },
+    },
+    place_id: options.placeId ?? "ChIJ2eUgeAK6j4ARbn5u_wAGqWA",
+    types: options.types ?? ["street_address"],
+    partial_match: options.partialMatch,
+  };
+}
+
+function toReply(response: MockResponse, defaultDelay: number): Reply {
+  const delay = response.delay ?? defaultDelay;
+  const headers = {
+    "Content-Type": "application/json",
+    ...response.headers,
+  };
+
+  if (response.httpStatus !== undefined) {
+    return {
+      label: `HTTP_${response.httpStatus}`,
+      status: response.httpStatus,
+      headers,
+      body: response.body ?? "",
+      delay,
+    };
+  }
+
+  const results = response.results ?? [];
+  const body: RawGeocodeResponse = {
+    status: response.status ?? (results.length > 0 ? "OK" : "ZERO_RESULTS"),
+    results,
+    error_message: response.errorMessage,
+  };
+
+  return {
+    label: response.body === undefined ? body.status : "CUSTOM_BODY",
+    status: 200,
+    headers,
+    body: response.body ?? JSON.stringify(body),
+    delay,
+  };
+}
+
+function queryKey(query: MockQuery): string {
+  if ("placeId" in query) {
+    return `placeId:${query.placeId}`;
+  }
+
+  if ("latlng" in query) {
+    return `latlng:${query.latlng.lat},${query.latlng.lng}`;
+  }
+
+  // Match addresses regardless of case and spacing
+  return `address:${query.address.trim().replaceAll(/\s+/g, " ").toLowerCase()}`;
+}
+
+function parseLatLng(value: string): LatLng | undefined {
+  const [lat, lng] = value.split(",").map(Number);
+
+  return Number.isFinite(lat) && Number.isFinite(lng)
+    ? { lat, lng }
+    : undefined;
+}
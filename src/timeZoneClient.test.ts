@@ -0,0 +1,315 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert";
+import { TimeZoneClient, geocodeWithTimezone } from "./timeZoneClient.js";
+import { Geocoder } from "./geocoder.js";
+import {
+  ApiKeyError,
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+  ResponseParseError,
+} from "./errors.js";
+import type { RawGeocodeResponse, RawTimeZoneResponse } from "./types.js";
+
+const mockTimeZoneResponse: RawTimeZoneResponse = {
+  status: "OK",
+  timeZoneId: "America/Los_Angeles",
+  timeZoneName: "Pacific Daylight Time",
+  rawOffset: -28_800,
+  dstOffset: 3600,
+};
+
+const mockGeocodeResponse: RawGeocodeResponse = {
+  status: "OK",
+  results: [
+    {
+      address_components: [],
+      formatted_address: "1600 Amphitheatre Parkway, Mountain View, CA",
+      geometry: {
+        location: { lat: 37.422_476_4, lng: -122.084_249_9 },
+        location_type: "ROOFTOP",
+        viewport: {
+          northeast: { lat: 37.4238, lng: -122.0829 },
+          southwest: { lat: 37.4211, lng: -122.0856 },
+        },
+      },
+      place_id: "ChIJ2eUgeAK6j4ARbn5u_wAGqWA",
+      types: ["street_address"],
+    },
+  ],
+};
+
+describe("TimeZoneClient", () => {
+  let timeZones: TimeZoneClient;
+  let mockFetch: ReturnType<typeof mock.fn<typeof globalThis.fetch>>;
+
+  beforeEach(() => {
+    mockFetch = mock.fn<typeof globalThis.fetch>();
+    timeZones = new TimeZoneClient({
+      apiKey: "test-api-key",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+  });
+
+  afterEach(() => {
+    timeZones.dispose();
+  });
+
+  it("should require an API key or auth strategy", () => {
+    assert.throws(() => new TimeZoneClient({}), InvalidRequestError);
+  });
+
+  it("should send the location and a timestamp rounded down to 15 minutes", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockTimeZoneResponse))
+    );
+
+    const result = await timeZones.getTimeZone({
+      location: { lat: 37.42, lng: -122.08 },
+      timestamp: new Date("2024-07-01T12:34:56Z"),
+      language: "de",
+    });
+
+    const url = new URL(mockFetch.mock.calls[0].arguments[0] as string);
+    assert.strictEqual(url.pathname, "/maps/api/timezone/json");
+    assert.strictEqual(url.searchParams.get("location"), "37.42,-122.08");
+    assert.strictEqual(
+      url.searchParams.get("timestamp"),
+      String(Date.parse("2024-07-01T12:30:00Z") / 1000)
+    );
+    assert.strictEqual(url.searchParams.get("language"), "de");
+    assert.deepStrictEqual(result, {
+      timeZoneId: "America/Los_Angeles",
+      timeZoneName: "Pacific Daylight Time",
+      rawOffset: -28_800,
+      dstOffset: 3600,
+    });
+  });
+
+  it("should return null for ZERO_RESULTS", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify({ status: "ZERO_RESULTS" }))
+    );
+
+    const result = await timeZones.getTimeZone({
+      location: { lat: 0, lng: 0 },
+    });
+    assert.strictEqual(result, null);
+  });
+
+  it("should reject invalid locations and timestamps", async () => {
+    await assert.rejects(
+      async () => timeZones.getTimeZone({ location: { lat: 91, lng: 0 } }),
+      InvalidRequestError
+    );
+    await assert.rejects(
+      async () =>
+        timeZones.getTimeZone({
+          location: { lat: 0, lng: 0 },
+          timestamp: new Date("invalid"),
+        }),
+      InvalidRequestError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 0);
+  });
+
+  it("should map API error statuses", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            status: "REQUEST_DENIED",
+            errorMessage: "The provided API key is invalid.",
+          })
+        )
+    );
+
+    await assert.rejects(
+      async () => timeZones.getTimeZone({ location: { lat: 0, lng: 0 } }),
+      (error: unknown) =>
+        error instanceof ApiKeyError &&
+        error.errorMessage === "The provided API key is invalid." &&
+        error.url?.includes("key=REDACTED") === true
+    );
+  });
+
+  it("should throw NetworkError for non-2xx responses", async () => {
+    mockFetch.mock.mockImplementation(
+      async () =>
+        new Response("<html>Service Unavailable</html>", {
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: { "Retry-After": "2" },
+        })
+    );
+
+    await assert.rejects(
+      async () => timeZones.getTimeZone({ location: { lat: 0, lng: 0 } }),
+      (error: unknown) =>
+        error instanceof NetworkError &&
+        error.httpStatus === 503 &&
+        error.retryAfter === 2000 &&
+        error.isRetryable
+    );
+  });
+
+  it("should throw ResponseParseError when an OK response lacks the time zone", async () => {
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify({ status: "OK" }))
+    );
+
+    await assert.rejects(
+      async () => timeZones.getTimeZone({ location: { lat: 0, lng: 0 } }),
+      (error: unknown) =>
+        error instanceof ResponseParseError && error.path === "timeZoneId"
+    );
+  });
+
+  it("should fail over to the next API key when the quota is exceeded", async () => {
+    const pooled = new TimeZoneClient({
+      apiKey: ["key-a", "key-b"],
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(async (input) =>
+      new URL(input as string).searchParams.get("key") === "key-a"
+        ? new Response(JSON.stringify({ status: "OVER_QUERY_LIMIT" }))
+        : new Response(JSON.stringify(mockTimeZoneResponse))
+    );
+
+    const result = await pooled.getTimeZone({ location: { lat: 0, lng: 0 } });
+
+    assert.strictEqual(result?.timeZoneId, "America/Los_Angeles");
+    assert.deepStrictEqual(
+      mockFetch.mock.calls.map((call) =>
+        new URL(call.arguments[0] as string).searchParams.get("key")
+      ),
+      ["key-a", "key-b"]
+    );
+
+    pooled.dispose();
+  });
+
+  it("should throw QuotaExceededError once every API key is exhausted", async () => {
+    const pooled = new TimeZoneClient({
+      apiKey: ["key-a", "key-b"],
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify({ status: "OVER_QUERY_LIMIT" }))
+    );
+
+    await assert.rejects(
+      async () => pooled.getTimeZone({ location: { lat: 0, lng: 0 } }),
+      QuotaExceededError
+    );
+    assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+    pooled.dispose();
+  });
+
+  it("should treat cache failures as misses", async () => {
+    const failingTimeZones = new TimeZoneClient({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: {
+        async get() {
+          throw new Error("cache down");
+        },
+        async set() {
+          throw new Error("cache down");
+        },
+        async delete() {
+          return false;
+        },
+        async clear() {
+          // Nothing to clear
+        },
+      },
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockTimeZoneResponse))
+    );
+
+    const result = await failingTimeZones.getTimeZone({
+      location: { lat: 0, lng: 0 },
+    });
+
+    assert.strictEqual(result?.timeZoneId, "America/Los_Angeles");
+
+    failingTimeZones.dispose();
+  });
+
+  it("should cache lookups within the same 15 minutes", async () => {
+    const cachedTimeZones = new TimeZoneClient({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: { ttl: 10_000 },
+      rateLimiter: false,
+    });
+
+    mockFetch.mock.mockImplementation(
+      async () => new Response(JSON.stringify(mockTimeZoneResponse))
+    );
+
+    const location = { lat: 37.42, lng: -122.08 };
+    await cachedTimeZones.getTimeZone({
+      location,
+      timestamp: Date.parse("2024-07-01T12:31:00Z"),
+    });
+    await cachedTimeZones.getTimeZone({
+      location,
+      timestamp: Date.parse("2024-07-01T12:44:00Z"),
+    });
+    await cachedTimeZones.getTimeZone({
+      location,
+      timestamp: Date.parse("2024-07-01T12:45:00Z"),
+    });
+
+    assert.strictEqual(mockFetch.mock.callCount(), 2);
+
+    cachedTimeZones.dispose();
+  });
+});
+
+describe("geocodeWithTimezone", () => {
+  it("should attach the time zone to each geocoding result", async () => {
+    const mockFetch = mock.fn<typeof globalThis.fetch>(async (url) =>
+      (url as string).includes("/timezone/")
+        ? new Response(JSON.stringify(mockTimeZoneResponse))
+        : new Response(JSON.stringify(mockGeocodeResponse))
+    );
+
+    const geocoder = new Geocoder({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+    const timeZones = new TimeZoneClient({
+      apiKey: "test",
+      fetch: mockFetch,
+      cache: false,
+      rateLimiter: false,
+    });
+
+    const [result] = await geocodeWithTimezone(geocoder, timeZones, {
+      address: "1600 Amphitheatre Parkway",
+    });
+
+    assert.strictEqual(result.placeId, "ChIJ2eUgeAK6j4ARbn5u_wAGqWA");
+    assert.strictEqual(result.timeZone?.timeZoneId, "America/Los_Angeles");
+
+    geocoder.dispose();
+    timeZones.dispose();
+  });
+});
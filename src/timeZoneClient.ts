@@ -0,0 +1,176 @@
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  TimeZoneOptions,
+  TimeZoneResult,
+} from "./types.js";
+import { createStatusError, InvalidRequestError } from "./errors.js";
+import { createCacheKey } from "./cache.js";
+import { isValidLatLng, parseTimeZoneResponse } from "./validation.js";
+import {
+  WebServiceClient,
+  type WebServiceClientConfig,
+  type WebServiceResponse,
+} from "./webServiceClient.js";
+import type { Geocoder } from "./geocoder.js";
+
+const DEFAULT_BASE_URL = "https://maps.googleapis.com/maps/api/timezone/json";
+
+/**
+ * Timestamps are rounded down to this interval so nearby lookups share a cache entry
+ */
+const TIMESTAMP_GRANULARITY = 15 * 60 * 1000;
+
+/**
+ * Configuration options for the TimeZoneClient
+ */
+export type TimeZoneClientConfig =
+  WebServiceClientConfig<TimeZoneResult | null>;
+
+/**
+ * A geocoding result with the time zone at its location
+ */
+export type GeocodeResultWithTimeZone = GeocodeResult & {
+  /** Time zone at `geometry.location`, or null if the point has none (e.g. at sea) */
+  timeZone: TimeZoneResult | null;
+};
+
+/**
+ * Client for the Google Time Zone API
+ *
+ * Shares its configuration, errors, cache and rate limiter with `Geocoder`.
+ *
+ * @example
+ * ```ts
+ * const timeZones = new TimeZoneClient({ apiKey: 'YOUR_API_KEY' });
+ *
+ * const zone = await timeZones.getTimeZone({ location: { lat: 37.42, lng: -122.08 } });
+ * console.log(zone?.timeZoneId); // "America/Los_Angeles"
+ * ```
+ */
+export class TimeZoneClient extends WebServiceClient<TimeZoneResult | null> {
+  constructor(config: TimeZoneClientConfig) {
+    super(config, DEFAULT_BASE_URL);
+  }
+
+  /**
+   * Look up the time zone of a point
+   *
+   * @param options - The point and the time at which to evaluate daylight saving time
+   * @returns The time zone, or null if the point has none
+   * @throws {InvalidRequestError} When the location or timestamp is invalid
+   * @throws {ApiKeyError} When the API key is invalid
+   * @throws {QuotaExceededError} When the quota is exceeded
+   * @throws {NetworkError} On network failures
+   * @throws {ResponseParseError} When the response is malformed
+   * @throws {AbortError} When `options.signal` is aborted
+   */
+  async getTimeZone(options: TimeZoneOptions): Promise<TimeZoneResult | null> {
+    if (!isValidLatLng(options.location)) {
+      throw new InvalidRequestError(
+        "Valid latitude and longitude are required"
+      );
+    }
+
+    const time =
+      options.timestamp instanceof Date
+        ? options.timestamp.getTime()
+        : (options.timestamp ?? Date.now());
+
+    if (!Number.isFinite(time)) {
+      throw new InvalidRequestError("Timestamp must be a valid date");
+    }
+
+    // The API takes seconds since the epoch
+    const timestamp =
+      (Math.floor(time / TIMESTAMP_GRANULARITY) * TIMESTAMP_GRANULARITY) / 1000;
+    const language = options.language ?? this.language;
+    const parameters = new URLSearchParams({
+      location: `${options.location.lat},${options.location.lng}`,
+      timestamp: String(timestamp),
+    });
+    if (language) {
+      parameters.set("language", language);
+    }
+
+    const cacheKey = createCacheKey({
+      type: "timezone",
+      location: parameters.get("location"),
+      timestamp,
+      language,
+    });
+    const { signal } = options;
+
+    return this.cached(cacheKey, signal, async () =>
+      this.send(parameters, {}, signal, (response) =>
+        this.handleResponse(response)
+      )
+    );
+  }
+
+  private handleResponse({
+    response,
+    body,
+    url,
+  }: WebServiceResponse): TimeZoneResult | null {
+    if (!response.ok) {
+      throw this.toNetworkError(response, url);
+    }
+
+    const raw = parseTimeZoneResponse(body);
+
+    if (raw.status === "OK") {
+      return {
+        timeZoneId: raw.timeZoneId!,
+        timeZoneName: raw.timeZoneName!,
+        rawOffset: raw.rawOffset!,
+        dstOffset: raw.dstOffset!,
+      };
+    }
+
+    if (raw.status === "ZERO_RESULTS") {
+      return null;
+    }
+
+    throw createStatusError(raw.status, raw.errorMessage, { url });
+  }
+}
+
+/**
+ * Geocode an address and look up the time zone of each result
+ *
+ * Time zones are looked up concurrently and share the client's cache, so
+ * results in the same place cost one Time Zone API request.
+ *
+ * @param geocoder - Geocoder used for the address lookup
+ * @param timeZones - Client used for the time zone lookups
+ * @param options - Geocoding options, plus the time at which to evaluate daylight saving time
+ *
+ * @example
+ * ```ts
+ * const [office] = await geocodeWithTimezone(geocoder, timeZones, {
+ *   address: '1600 Amphitheatre Parkway, Mountain View, CA',
+ * });
+ * console.log(office.timeZone?.timeZoneId);
+ * ```
+ */
+export async function geocodeWithTimezone(
+  geocoder: Pick<Geocoder, "geocode">,
+  timeZones: Pick<TimeZoneClient, "getTimeZone">,
+  options: GeocodeOptions & Pick<TimeZoneOptions, "timestamp">
+): Promise<GeocodeResultWithTimeZone[]> {
+  const { timestamp, ...geocodeOptions } = options;
+  const results = await geocoder.geocode(geocodeOptions);
+
+  return Promise.all(
+    results.map(async (result) => ({
+      ...result,
+      timeZone: await timeZones.getTimeZone({
+        location: result.geometry.location,
+        timestamp,
+        language: options.language,
+        signal: options.signal,
+      }),
+    }))
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert";
+import { createTransport } from "./transport.js";
+import type { FetchFunction } from "./types.js";
+
+describe("createTransport", () => {
+  it("should send requests with the provided fetch", async () => {
+    const fetchFn = mock.fn<FetchFunction>(async () => new Response("ok"));
+    const transport = createTransport(fetchFn);
+
+    const response = await transport({
+      url: "https://example.com",
+      init: { method: "GET" },
+    });
+
+    assert.strictEqual(await response.text(), "ok");
+    assert.strictEqual(fetchFn.mock.callCount(), 1);
+    assert.strictEqual(
+      fetchFn.mock.calls[0].arguments[0],
+      "https://example.com"
+    );
+  });
+
+  it("should run request interceptors in order", async () => {
+    const fetchFn = mock.fn<FetchFunction>(async () => new Response("ok"));
+    const transport = createTransport(fetchFn, {
+      request: [
+        (request) => ({ ...request, url: `${request.url}?a=1` }),
+        async (request) => ({
+          ...request,
+          url: `${request.url}&b=2`,
+          init: { ...request.init, headers: { "X-Test": "yes" } },
+        }),
+      ],
+    });
+
+    await transport({ url: "https://example.com", init: { method: "GET" } });
+
+    const [url, init] = fetchFn.mock.calls[0].arguments;
+    assert.strictEqual(url, "https://example.com?a=1&b=2");
+    assert.deepStrictEqual(init.headers, { "X-Test": "yes" });
+  });
+
+  it("should run response interceptors with the final request", async () => {
+    const fetchFn = mock.fn<FetchFunction>(async () => new Response("ok"));
+    const seenUrls: string[] = [];
+    const transport = createTransport(fetchFn, {
+      request: [(request) => ({ ...request, url: `${request.url}/v2` })],
+      response: [
+        (response, request) => {
+          seenUrls.push(request.url);
+          return response;
+        },
+        async () => new Response("replaced"),
+      ],
+    });
+
+    const response = await transport({
+      url: "https://example.com",
+      init: {},
+    });
+
+    assert.deepStrictEqual(seenUrls, ["https://example.com/v2"]);
+    assert.strictEqual(await response.text(), "replaced");
+  });
+
+  it("should fall back to the global fetch", async () => {
+    const originalFetch = globalThis.fetch;
+    const globalFetch = mock.fn<typeof globalThis.fetch>(
+      async () => new Response("global")
+    );
+    const transport = createTransport();
+    globalThis.fetch = globalFetch;
+
+    try {
+      const response = await transport({
+        url: "https://example.com",
+        init: {},
+      });
+      assert.strictEqual(await response.text(), "global");
+      assert.strictEqual(globalFetch.mock.callCount(), 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import type { FetchFunction, Interceptors, TransportRequest } from "./types.js";
+
+/**
+ * Sends a request through the configured interceptors and fetch function
+ */
+export type Transport = (request: TransportRequest) => Promise<Response>;
+
+/**
+ * Create a transport that runs request interceptors, sends the request with
+ * `fetchFn`, then runs response interceptors
+ *
+ * @example
+ * ```ts
+ * const transport = createTransport(fetch, {
+ *   request: [(req) => ({ ...req, init: { ...req.init, headers: { 'X-Trace': id } } })],
+ * });
+ * const response = await transport({ url, init: { method: 'GET' } });
+ * ```
+ */
+export function createTransport(
+  fetchFn?: FetchFunction,
+  interceptors: Interceptors = {}
+): Transport {
+  // Resolve the global lazily so it can be replaced after construction
+  const send: FetchFunction =
+    fetchFn ?? (async (url, init) => globalThis.fetch(url, init));
+  const requestInterceptors = interceptors.request ?? [];
+  const responseInterceptors = interceptors.response ?? [];
+
+  return async (request) => {
+    // Interceptors run in order, each on the output of the previous one
+    const current = await requestInterceptors.reduce<Promise<TransportRequest>>(
+      async (previous, interceptor) => interceptor(await previous),
+      Promise.resolve(request)
+    );
+
+    return responseInterceptors.reduce<Promise<Response>>(
+      async (previous, interceptor) => interceptor(await previous, current),
+      send(current.url, current.init)
+    );
+  };
+}
@@ -1,9 +1,21 @@
+import type { AuthStrategy } from "./auth.js";
+
 /**
  * Configuration options for the Geocoder client
  */
 export type GeocoderConfig = {
-  /** Your Google Maps API key */
-  apiKey: string;
+  /**
+   * Your Google Maps API key, or several keys to fail over between when one
+   * runs out of quota. Required unless `auth` is given.
+   */
+  apiKey?: string | string[];
+  /**
+   * Authentication strategy, e.g. `ClientIdAuth` for client ID and URL
+   * signing. Takes precedence over `apiKey`.
+   */
+  auth?: AuthStrategy;
+  /** Channel added to every request for usage reporting */
+  channel?: string;
   /** Optional base URL override (useful for testing) */
   baseUrl?: string;
   /** Request timeout in milliseconds (default: 10000) */
@@ -12,6 +24,57 @@ export type GeocoderConfig = {
   language?: string;
   /** Default region bias */
   region?: string;
+  /**
+   * Custom fetch implementation used for every API call
+   * (default: the global `fetch`)
+   */
+  fetch?: FetchFunction;
+  /** Hooks applied to every outgoing request and incoming response */
+  interceptors?: Interceptors;
+  /**
+   * How to handle malformed results in API responses: `strict` rejects the
+   * whole response, `lenient` drops the malformed results (default: "strict")
+   */
+  responseValidation?: "strict" | "lenient";
+};
+
+/**
+ * A `fetch`-compatible function used to send requests
+ */
+export type FetchFunction = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/**
+ * An outgoing request as seen by request interceptors
+ */
+export type TransportRequest = {
+  url: string;
+  init: RequestInit;
+};
+
+/**
+ * Called before a request is sent. May return a modified request.
+ */
+export type RequestInterceptor = (
+  request: TransportRequest
+) => TransportRequest | Promise<TransportRequest>;
+
+/**
+ * Called after a response is received. May return a modified response.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: TransportRequest
+) => Response | Promise<Response>;
+
+/**
+ * Request and response interceptors, run in array order
+ */
+export type Interceptors = {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
 };
 
 /**
@@ -31,6 +94,8 @@ export type GeocodeOptions = {
   language?: string;
   /** Region bias (overrides default) */
   region?: string;
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
 };
 
 /**
@@ -45,6 +110,28 @@ export type ReverseGeocodeOptions = {
   locationType?: LocationType[];
   /** Language for results (overrides default) */
   language?: string;
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for looking up a place ID
+ */
+export type PlaceIdOptions = {
+  /** Place ID, e.g. from a stored `GeocodeResult.placeId` */
+  placeId: string;
+  /** Language for results (overrides default) */
+  language?: string;
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options accepted by the convenience methods
+ */
+export type RequestOptions = {
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
 };
 
 /**
@@ -65,28 +152,60 @@ export type LocationType =
   | "APPROXIMATE";
 
 /**
- * Result types used for filtering reverse geocoding responses.
- * (Based on the documented `result_type` options.)
+ * Address types returned in `GeocodeResult.types` and
+ * `AddressComponent.types`. (Based on the documented address types and
+ * address component types.)
  */
-export type ResultType =
+export type AddressType =
   | "street_address"
+  | "street_number"
   | "route"
   | "intersection"
   | "political"
+  | "continent"
   | "country"
   | "administrative_area_level_1"
   | "administrative_area_level_2"
+  | "administrative_area_level_3"
+  | "administrative_area_level_4"
+  | "administrative_area_level_5"
+  | "administrative_area_level_6"
+  | "administrative_area_level_7"
+  | "archipelago"
   | "colloquial_area"
   | "locality"
   | "sublocality"
+  | "sublocality_level_1"
+  | "sublocality_level_2"
+  | "sublocality_level_3"
+  | "sublocality_level_4"
+  | "sublocality_level_5"
   | "neighborhood"
   | "premise"
   | "subpremise"
+  | "plus_code"
   | "postal_code"
+  | "postal_code_prefix"
+  | "postal_code_suffix"
+  | "postal_town"
   | "natural_feature"
   | "airport"
   | "park"
-  | "point_of_interest";
+  | "point_of_interest"
+  | "establishment"
+  | "landmark"
+  | "floor"
+  | "room"
+  | "parking"
+  | "post_box"
+  | "bus_station"
+  | "train_station"
+  | "transit_station";
+
+/**
+ * Result types used for filtering reverse geocoding responses
+ */
+export type ResultType = AddressType;
 
 /**
  * Status codes returned by the Geocoding API
@@ -106,7 +225,11 @@ export type GeocodingStatus =
 export type AddressComponent = {
   longName: string;
   shortName: string;
-  types: string[];
+  /**
+   * Component types. Types the API returns that are not listed in
+   * `AddressType` are kept as plain strings; narrow them with `isAddressType`.
+   */
+  types: Array<AddressType | (string & Record<never, never>)>;
 };
 
 /**
@@ -144,7 +267,11 @@ export type GeocodeResult = {
   plusCode?: PlusCode;
   /** Present for some postal code results */
   postcodeLocalities?: string[];
-  types: string[];
+  /**
+   * Result types. Types the API returns that are not listed in `AddressType`
+   * are kept as plain strings; narrow them with `isAddressType`.
+   */
+  types: Array<AddressType | (string & Record<never, never>)>;
   partialMatch?: boolean;
 };
 
@@ -204,3 +331,376 @@ export type RawGeocodeResponse = {
   plus_code?: RawPlusCode;
   error_message?: string;
 };
+
+/**
+ * Options for validating an address with the Address Validation API
+ */
+export type AddressValidationOptions = {
+  /** Unstructured address lines, e.g. `["1600 Amphitheatre Pkwy", "Mountain View, CA"]` */
+  addressLines: string[];
+  /** CLDR region code, e.g. "US". Inferred from the address lines if omitted. */
+  regionCode?: string;
+  locality?: string;
+  administrativeArea?: string;
+  postalCode?: string;
+  /** Language of the input address */
+  languageCode?: string;
+  /** Run USPS CASS processing (US and Puerto Rico only) */
+  enableUspsCass?: boolean;
+  /** `responseId` of the first validation when re-validating an edited address */
+  previousResponseId?: string;
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
+};
+
+/**
+ * Granularity levels of an address, from most to least precise
+ */
+export type ValidationGranularity =
+  | "GRANULARITY_UNSPECIFIED"
+  | "SUB_PREMISE"
+  | "PREMISE"
+  | "PREMISE_PROXIMITY"
+  | "BLOCK"
+  | "ROUTE"
+  | "OTHER";
+
+/**
+ * How confident the API is that an address component is correct
+ */
+export type ConfirmationLevel =
+  | "CONFIRMATION_LEVEL_UNSPECIFIED"
+  | "CONFIRMED"
+  | "UNCONFIRMED_BUT_PLAUSIBLE"
+  | "UNCONFIRMED_AND_SUSPICIOUS";
+
+/**
+ * Overall quality of a validated address
+ */
+export type AddressValidationVerdict = {
+  inputGranularity: ValidationGranularity;
+  /** Level down to which the address could be fully validated */
+  validationGranularity: ValidationGranularity;
+  geocodeGranularity: ValidationGranularity;
+  /** No unresolved tokens and no missing or unexpected components */
+  addressComplete: boolean;
+  hasUnconfirmedComponents: boolean;
+  hasInferredComponents: boolean;
+  hasReplacedComponents: boolean;
+};
+
+/**
+ * Address component of a validated address
+ */
+export type ValidatedAddressComponent = {
+  text: string;
+  languageCode?: string;
+  /** Component type, e.g. "route" or "postal_code" */
+  type: string;
+  confirmationLevel: ConfirmationLevel;
+  /** Added by the API rather than taken from the input */
+  inferred: boolean;
+  spellCorrected: boolean;
+  replaced: boolean;
+  /** Not expected in an address of this region */
+  unexpected: boolean;
+};
+
+/**
+ * Postal address in the structure used by the Address Validation API
+ */
+export type PostalAddress = {
+  regionCode: string;
+  languageCode?: string;
+  postalCode?: string;
+  administrativeArea?: string;
+  locality?: string;
+  sublocality?: string;
+  addressLines: string[];
+  recipients?: string[];
+  organization?: string;
+};
+
+/**
+ * The address as corrected and standardized by the API
+ */
+export type ValidatedAddress = {
+  formattedAddress: string;
+  postalAddress?: PostalAddress;
+  components: ValidatedAddressComponent[];
+  missingComponentTypes: string[];
+  unconfirmedComponentTypes: string[];
+  /** Input tokens that could not be matched to any component */
+  unresolvedTokens: string[];
+};
+
+/**
+ * Geocode of a validated address
+ */
+export type AddressValidationGeocode = {
+  location: LatLng;
+  placeId?: string;
+  placeTypes: string[];
+  plusCode?: PlusCode;
+  bounds?: {
+    northeast: LatLng;
+    southwest: LatLng;
+  };
+  featureSizeMeters?: number;
+};
+
+/**
+ * Additional information about the address
+ */
+export type AddressMetadata = {
+  business?: boolean;
+  poBox?: boolean;
+  residential?: boolean;
+};
+
+/**
+ * USPS standardized address
+ */
+export type UspsAddress = {
+  firstAddressLine?: string;
+  firm?: string;
+  secondAddressLine?: string;
+  urbanization?: string;
+  cityStateZipAddressLine?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  zipCodeExtension?: string;
+};
+
+/**
+ * USPS CASS data, returned for US and Puerto Rico addresses
+ */
+export type UspsData = {
+  standardizedAddress?: UspsAddress;
+  deliveryPointCode?: string;
+  deliveryPointCheckDigit?: string;
+  /** Delivery point validation: Y (confirmed), N, S (secondary missing) or D */
+  dpvConfirmation?: string;
+  dpvFootnote?: string;
+  dpvCmra?: string;
+  dpvVacant?: string;
+  dpvNoStat?: string;
+  carrierRoute?: string;
+  carrierRouteIndicator?: string;
+  postOfficeCity?: string;
+  postOfficeState?: string;
+  county?: string;
+  fipsCountyCode?: string;
+  addressRecordType?: string;
+  defaultAddress?: boolean;
+  errorMessage?: string;
+  cassProcessed?: boolean;
+};
+
+/**
+ * Result of validating an address
+ */
+export type AddressValidationResult = {
+  verdict: AddressValidationVerdict;
+  address: ValidatedAddress;
+  geocode?: AddressValidationGeocode;
+  metadata?: AddressMetadata;
+  uspsData?: UspsData;
+  /** Pass as `previousResponseId` when re-validating the same address */
+  responseId: string;
+};
+
+/**
+ * Raw Address Validation API response types.
+ * These reflect the wire format returned by Google; fields that are
+ * false or empty are omitted.
+ */
+export type RawLatLngLiteral = {
+  latitude: number;
+  longitude: number;
+};
+
+export type RawValidatedAddressComponent = {
+  componentName: { text: string; languageCode?: string };
+  componentType: string;
+  confirmationLevel?: ConfirmationLevel;
+  inferred?: boolean;
+  spellCorrected?: boolean;
+  replaced?: boolean;
+  unexpected?: boolean;
+};
+
+export type RawAddressValidationResponse = {
+  result: {
+    verdict: Partial<AddressValidationVerdict>;
+    address: {
+      formattedAddress?: string;
+      postalAddress?: PostalAddress;
+      addressComponents?: RawValidatedAddressComponent[];
+      missingComponentTypes?: string[];
+      unconfirmedComponentTypes?: string[];
+      unresolvedTokens?: string[];
+    };
+    geocode?: {
+      location: RawLatLngLiteral;
+      plusCode?: { globalCode: string; compoundCode?: string };
+      bounds?: { low: RawLatLngLiteral; high: RawLatLngLiteral };
+      featureSizeMeters?: number;
+      placeId?: string;
+      placeTypes?: string[];
+    };
+    metadata?: AddressMetadata;
+    uspsData?: UspsData;
+  };
+  responseId: string;
+};
+
+/**
+ * Error body returned by Google Cloud APIs
+ */
+export type RawGoogleApiError = {
+  error: {
+    code: number;
+    message: string;
+    /** Canonical status, e.g. "INVALID_ARGUMENT" or "RESOURCE_EXHAUSTED" */
+    status: string;
+  };
+};
+
+/**
+ * Options for looking up the time zone of a point
+ */
+export type TimeZoneOptions = {
+  location: LatLng;
+  /**
+   * Time used to determine whether daylight saving time applies
+   * (default: now). Rounded down to 15 minutes so lookups can be cached.
+   */
+  timestamp?: Date | number;
+  /** Language of `timeZoneName` (overrides default) */
+  language?: string;
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
+};
+
+/**
+ * Time zone of a point
+ */
+export type TimeZoneResult = {
+  /** IANA time zone ID, e.g. "America/Los_Angeles" */
+  timeZoneId: string;
+  /** Localized long name, e.g. "Pacific Daylight Time" */
+  timeZoneName: string;
+  /** Offset from UTC without daylight saving time, in seconds */
+  rawOffset: number;
+  /** Daylight saving time offset at `timestamp`, in seconds */
+  dstOffset: number;
+};
+
+/**
+ * Options for looking up the elevation of points
+ */
+export type ElevationOptions = {
+  /** Points to look up (at most 512) */
+  locations: LatLng[];
+  /** Signal to cancel the request, including while it waits for the rate limiter */
+  signal?: AbortSignal;
+};
+
+/**
+ * Elevation of a point
+ */
+export type ElevationResult = {
+  /** Elevation relative to sea level, in meters */
+  elevation: number;
+  location: LatLng;
+  /** Distance between the data points the elevation was interpolated from, in meters */
+  resolution?: number;
+};
+
+/**
+ * Raw Time Zone API response. Unlike the Geocoding API, the Time Zone API
+ * uses camelCase field names.
+ */
+export type RawTimeZoneResponse = {
+  status: GeocodingStatus;
+  timeZoneId?: string;
+  timeZoneName?: string;
+  rawOffset?: number;
+  dstOffset?: number;
+  errorMessage?: string;
+};
+
+/**
+ * Raw Elevation API response
+ */
+export type RawElevationResponse = {
+  status: GeocodingStatus;
+  results: ElevationResult[];
+  error_message?: string;
+};
+
+/**
+ * Raw Nominatim place in the `jsonv2` format, requested with `addressdetails=1`
+ */
+export type RawNominatimPlace = {
+  osm_type?: "node" | "way" | "relation";
+  osm_id?: number;
+  /** Latitude, as a decimal string */
+  lat: string;
+  /** Longitude, as a decimal string */
+  lon: string;
+  /** OSM key of the main tag, e.g. "highway" or "place" */
+  category?: string;
+  /** OSM value of the main tag, e.g. "residential" or "city" */
+  type?: string;
+  /** Address level of the place, e.g. "road" or "city" */
+  addresstype?: string;
+  name?: string;
+  display_name: string;
+  /** Address parts by OSM key, e.g. `{ road: "Unter den Linden", city: "Berlin" }` */
+  address?: Record<string, string>;
+  /** `[minLat, maxLat, minLon, maxLon]`, as decimal strings */
+  boundingbox?: [string, string, string, string];
+};
+
+/**
+ * Raw Nominatim response. `/search` and `/lookup` return a list of places,
+ * `/reverse` a single place or an error.
+ */
+export type RawNominatimResponse =
+  | RawNominatimPlace[]
+  | RawNominatimPlace
+  | { error: string | { code: number; message: string } };
+
+/**
+ * A GeoJSON position, `[longitude, latitude]`
+ */
+export type GeoJsonPosition = number[];
+
+/**
+ * A GeoJSON polygon or multi-polygon. In each polygon, the first ring is the
+ * outer boundary and the others are holes.
+ */
+export type GeoJsonGeometry =
+  | { type: "Polygon"; coordinates: GeoJsonPosition[][] }
+  | { type: "MultiPolygon"; coordinates: GeoJsonPosition[][][] };
+
+/**
+ * A GeoJSON feature. Geometries other than polygons are read as `null`.
+ */
+export type GeoJsonFeature = {
+  type: "Feature";
+  id?: string | number;
+  properties: Record<string, unknown> | null;
+  geometry: GeoJsonGeometry | null;
+};
+
+/**
+ * A GeoJSON feature collection
+ */
+export type GeoJsonFeatureCollection = {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+};
@@ -0,0 +1,190 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { parseFeatureCollection, parseGeocodeResponse } from "./validation.js";
+import { ResponseParseError } from "./errors.js";
+
+const validResult = {
+  address_components: [
+    { long_name: "1600", short_name: "1600", types: ["street_number"] },
+  ],
+  formatted_address: "1600 Amphitheatre Parkway, Mountain View, CA 94043, USA",
+  geometry: {
+    location: { lat: 37.422_476_4, lng: -122.084_249_9 },
+    location_type: "ROOFTOP",
+    viewport: {
+      northeast: { lat: 37.4238, lng: -122.0829 },
+      southwest: { lat: 37.4211, lng: -122.0856 },
+    },
+  },
+  place_id: "ChIJ2eUgeAK6j4ARbn5u_wAGqWA",
+  types: ["street_address"],
+};
+
+const invalidResult = {
+  ...validResult,
+  geometry: {
+    ...validResult.geometry,
+    location: { lat: "37.42", lng: -122.08 },
+  },
+};
+
+describe("parseGeocodeResponse", () => {
+  it("should accept a valid response", () => {
+    const body = JSON.stringify({ status: "OK", results: [validResult] });
+
+    assert.deepStrictEqual(parseGeocodeResponse(body).results, [
+      {
+        ...validResult,
+        geometry: { ...validResult.geometry, bounds: undefined },
+        plus_code: undefined,
+        postcode_localities: undefined,
+        partial_match: undefined,
+      },
+    ]);
+  });
+
+  it("should allow error responses without results", () => {
+    const body = JSON.stringify({
+      status: "REQUEST_DENIED",
+      error_message: "The provided API key is invalid.",
+    });
+
+    const response = parseGeocodeResponse(body);
+    assert.strictEqual(response.status, "REQUEST_DENIED");
+    assert.deepStrictEqual(response.results, []);
+  });
+
+  it("should reject bodies that are not JSON", () => {
+    const body = "<html><body>502 Bad Gateway</body></html>";
+
+    assert.throws(
+      () => parseGeocodeResponse(body),
+      (error: unknown) =>
+        error instanceof ResponseParseError &&
+        error.path === "$" &&
+        error.bodySnippet === body
+    );
+  });
+
+  it("should report the path of invalid values", () => {
+    const body = JSON.stringify({ status: "OK", results: [invalidResult] });
+
+    assert.throws(
+      () => parseGeocodeResponse(body),
+      (error: unknown) =>
+        error instanceof ResponseParseError &&
+        error.path === "results[0].geometry.location.lat" &&
+        error.message.includes("expected number, got string")
+    );
+  });
+
+  it("should reject a missing results array", () => {
+    assert.throws(
+      () => parseGeocodeResponse(JSON.stringify({ status: "OK" })),
+      (error: unknown) =>
+        error instanceof ResponseParseError && error.path === "results"
+    );
+  });
+
+  it("should drop malformed results in lenient mode", () => {
+    const body = JSON.stringify({
+      status: "OK",
+      results: [invalidResult, validResult, null],
+    });
+
+    const response = parseGeocodeResponse(body, { lenient: true });
+    assert.strictEqual(response.results.length, 1);
+    assert.strictEqual(response.results[0].place_id, validResult.place_id);
+  });
+
+  it("should still reject an invalid envelope in lenient mode", () => {
+    assert.throws(
+      () => parseGeocodeResponse('{"results": []}', { lenient: true }),
+      (error: unknown) =>
+        error instanceof ResponseParseError && error.path === "status"
+    );
+  });
+});
+
+describe("parseFeatureCollection", () => {
+  const square = [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [0, 0],
+    ],
+  ];
+
+  it("should accept polygons and read other geometries as null", () => {
+    const body = JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          id: 7,
+          properties: { name: "Square" },
+          geometry: { type: "Polygon", coordinates: square },
+        },
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [0, 0] },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(parseFeatureCollection(body).features, [
+      {
+        type: "Feature",
+        id: 7,
+        properties: { name: "Square" },
+        geometry: { type: "Polygon", coordinates: square },
+      },
+      { type: "Feature", id: undefined, properties: null, geometry: null },
+    ]);
+  });
+
+  it("should report the path of invalid coordinates", () => {
+    const body = JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: {},
+          geometry: {
+            type: "MultiPolygon",
+            coordinates: [
+              square,
+              [
+                [
+                  [0, 0],
+                  [1, "0"],
+                  [1, 1],
+                  [0, 0],
+                ],
+              ],
+            ],
+          },
+        },
+      ],
+    });
+
+    assert.throws(
+      () => parseFeatureCollection(body),
+      (error: unknown) =>
+        error instanceof ResponseParseError &&
+        error.path === "features[0].geometry.coordinates[1][0][1][1]"
+    );
+  });
+
+  it("should reject other GeoJSON objects", () => {
+    assert.throws(
+      () => parseFeatureCollection('{"type": "Feature"}'),
+      (error: unknown) =>
+        error instanceof ResponseParseError &&
+        error.path === "type" &&
+        error.message.includes('got "Feature"')
+    );
+  });
+});
@@ -0,0 +1,666 @@
+import { ResponseParseError } from "./errors.js";
+import type {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonGeometry,
+  GeoJsonPosition,
+  LatLng,
+  RawAddressValidationResponse,
+  RawAddressComponent,
+  RawElevationResponse,
+  RawGeocodeResponse,
+  RawGeocodeResult,
+  RawGeometry,
+  RawNominatimPlace,
+  RawPlusCode,
+  RawTimeZoneResponse,
+} from "./types.js";
+
+/**
+ * Response validation options
+ */
+export type ParseOptions = {
+  /**
+   * Drop malformed results instead of rejecting the whole response
+   * (default: false)
+   */
+  lenient?: boolean;
+};
+
+/**
+ * A value that does not match the schema
+ */
+class SchemaError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly path: string
+  ) {
+    super(reason);
+  }
+}
+
+/**
+ * Validate latitude/longitude coordinates
+ */
+export function isValidLatLng(latlng: LatLng): boolean {
+  return (
+    typeof latlng?.lat === "number" &&
+    typeof latlng?.lng === "number" &&
+    latlng.lat >= -90 &&
+    latlng.lat <= 90 &&
+    latlng.lng >= -180 &&
+    latlng.lng <= 180
+  );
+}
+
+/**
+ * Parse and validate a Geocoding API response body
+ *
+ * In lenient mode, results that fail validation are dropped. The response
+ * envelope (`status`, `results`) must always be valid.
+ *
+ * @throws {ResponseParseError} When the body is not JSON or does not match the schema
+ */
+export function parseGeocodeResponse(
+  body: string,
+  options: ParseOptions = {}
+): RawGeocodeResponse {
+  return parse(body, (data) =>
+    validateResponse(data, options.lenient ?? false)
+  );
+}
+
+/**
+ * Parse an Address Validation API response body, checking the fields the
+ * result mapping relies on
+ *
+ * @throws {ResponseParseError} When the body is not JSON or does not match the schema
+ */
+export function parseAddressValidationResponse(
+  body: string
+): RawAddressValidationResponse {
+  return parse(body, validateAddressValidationResponse);
+}
+
+/**
+ * Parse a Time Zone API response body
+ *
+ * @throws {ResponseParseError} When the body is not JSON or does not match the schema
+ */
+export function parseTimeZoneResponse(body: string): RawTimeZoneResponse {
+  return parse(body, validateTimeZoneResponse);
+}
+
+/**
+ * Parse an Elevation API response body
+ *
+ * @throws {ResponseParseError} When the body is not JSON or does not match the schema
+ */
+export function parseElevationResponse(body: string): RawElevationResponse {
+  return parse(body, validateElevationResponse);
+}
+
+/**
+ * Places and error message of a Nominatim response
+ */
+export type NominatimParseResult = {
+  places: RawNominatimPlace[];
+  /** Error message, e.g. "Unable to geocode" when `/reverse` finds nothing */
+  error?: string;
+};
+
+/**
+ * Parse a Nominatim response body from `/search`, `/lookup` or `/reverse`
+ *
+ * In lenient mode, places that fail validation are dropped.
+ *
+ * @throws {ResponseParseError} When the body is not JSON or does not match the schema
+ */
+export function parseNominatimResponse(
+  body: string,
+  options: ParseOptions = {}
+): NominatimParseResult {
+  return parse(body, (data) =>
+    validateNominatimResponse(data, options.lenient ?? false)
+  );
+}
+
+/**
+ * Parse a GeoJSON feature collection, e.g. a boundary dataset read from disk
+ *
+ * Polygon and multi-polygon coordinates are checked; other geometries are
+ * read as `null`.
+ *
+ * @throws {ResponseParseError} When the text is not JSON or not a feature collection
+ */
+export function parseFeatureCollection(body: string): GeoJsonFeatureCollection {
+  return parse(body, validateFeatureCollection);
+}
+
+/**
+ * Parse a JSON body and validate it, reporting schema mismatches as
+ * `ResponseParseError`
+ */
+function parse<T>(body: string, validate: (data: unknown) => T): T {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new ResponseParseError("body is not valid JSON", "$", body);
+  }
+
+  try {
+    return validate(data);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ResponseParseError(error.reason, error.path, body);
+    }
+
+    throw error;
+  }
+}
+
+function validateAddressValidationResponse(
+  data: unknown
+): RawAddressValidationResponse {
+  const response = expectObject(data, "$");
+  const result = expectObject(response.result, "result");
+  expectObject(result.verdict, "result.verdict");
+
+  const address = expectObject(result.address, "result.address");
+  const components = optional(
+    address.addressComponents,
+    "result.address.addressComponents",
+    expectArray
+  );
+  for (const [index, value] of (components ?? []).entries()) {
+    const path = `result.address.addressComponents[${index}]`;
+    const component = expectObject(value, path);
+    const name = expectObject(component.componentName, `${path}.componentName`);
+    expectString(name.text, `${path}.componentName.text`);
+    expectString(component.componentType, `${path}.componentType`);
+  }
+
+  const geocode = optional(result.geocode, "result.geocode", expectObject);
+  if (geocode) {
+    validateLatLngLiteral(geocode.location, "result.geocode.location");
+
+    const bounds = optional(
+      geocode.bounds,
+      "result.geocode.bounds",
+      expectObject
+    );
+    if (bounds) {
+      validateLatLngLiteral(bounds.high, "result.geocode.bounds.high");
+      validateLatLngLiteral(bounds.low, "result.geocode.bounds.low");
+    }
+  }
+
+  expectString(response.responseId, "responseId");
+
+  return data as RawAddressValidationResponse;
+}
+
+function validateLatLngLiteral(value: unknown, path: string): void {
+  const location = expectObject(value, path);
+  expectNumber(location.latitude, `${path}.latitude`);
+  expectNumber(location.longitude, `${path}.longitude`);
+}
+
+function validateTimeZoneResponse(data: unknown): RawTimeZoneResponse {
+  const response = expectObject(data, "$");
+  const status = expectString(response.status, "status");
+
+  // Only successful responses carry the time zone
+  const required = <T>(
+    value: unknown,
+    path: string,
+    validate: (value: unknown, path: string) => T
+  ): T | undefined =>
+    status === "OK" ? validate(value, path) : optional(value, path, validate);
+
+  return {
+    status: status as RawTimeZoneResponse["status"],
+    timeZoneId: required(response.timeZoneId, "timeZoneId", expectString),
+    timeZoneName: required(response.timeZoneName, "timeZoneName", expectString),
+    rawOffset: required(response.rawOffset, "rawOffset", expectNumber),
+    dstOffset: required(response.dstOffset, "dstOffset", expectNumber),
+    errorMessage: optional(response.errorMessage, "errorMessage", expectString),
+  };
+}
+
+function validateElevationResponse(data: unknown): RawElevationResponse {
+  const response = expectObject(data, "$");
+  const status = expectString(response.status, "status");
+
+  // Error responses may omit `results`
+  const rawResults =
+    response.results === undefined && status !== "OK"
+      ? []
+      : expectArray(response.results, "results");
+
+  return {
+    status: status as RawElevationResponse["status"],
+    results: rawResults.map((value, index) => {
+      const path = `results[${index}]`;
+      const result = expectObject(value, path);
+
+      return {
+        elevation: expectNumber(result.elevation, `${path}.elevation`),
+        location: validateLatLng(result.location, `${path}.location`),
+        resolution: optional(
+          result.resolution,
+          `${path}.resolution`,
+          expectNumber
+        ),
+      };
+    }),
+    error_message: optional(
+      response.error_message,
+      "error_message",
+      expectString
+    ),
+  };
+}
+
+function validateNominatimResponse(
+  data: unknown,
+  lenient: boolean
+): NominatimParseResult {
+  if (!Array.isArray(data)) {
+    const response = expectObject(data, "$");
+    if (response.error !== undefined) {
+      const error =
+        typeof response.error === "string"
+          ? response.error
+          : expectString(
+              expectObject(response.error, "error").message,
+              "error.message"
+            );
+
+      return { places: [], error };
+    }
+
+    return { places: [validateNominatimPlace(response, "$")] };
+  }
+
+  const places: RawNominatimPlace[] = [];
+  for (const [index, place] of data.entries()) {
+    try {
+      places.push(validateNominatimPlace(place, `[${index}]`));
+    } catch (error) {
+      if (!lenient || !(error instanceof SchemaError)) {
+        throw error;
+      }
+    }
+  }
+
+  return { places };
+}
+
+function validateNominatimPlace(
+  value: unknown,
+  path: string
+): RawNominatimPlace {
+  const place = expectObject(value, path);
+  const address = optional(place.address, `${path}.address`, expectObject);
+
+  return {
+    osm_type: optional(
+      place.osm_type,
+      `${path}.osm_type`,
+      expectString
+    ) as RawNominatimPlace["osm_type"],
+    osm_id: optional(place.osm_id, `${path}.osm_id`, expectNumber),
+    lat: expectNumericString(place.lat, `${path}.lat`),
+    lon: expectNumericString(place.lon, `${path}.lon`),
+    category: optional(place.category, `${path}.category`, expectString),
+    type: optional(place.type, `${path}.type`, expectString),
+    addresstype: optional(
+      place.addresstype,
+      `${path}.addresstype`,
+      expectString
+    ),
+    name: optional(place.name, `${path}.name`, expectString),
+    display_name: expectString(place.display_name, `${path}.display_name`),
+    address:
+      address &&
+      Object.fromEntries(
+        Object.entries(address).map(([key, part]) => [
+          key,
+          expectString(part, `${path}.address.${key}`),
+        ])
+      ),
+    boundingbox: optional(
+      place.boundingbox,
+      `${path}.boundingbox`,
+      validateBoundingBox
+    ),
+  };
+}
+
+function validateBoundingBox(
+  value: unknown,
+  path: string
+): RawNominatimPlace["boundingbox"] {
+  const box = expectArray(value, path);
+  if (box.length !== 4) {
+    throw new SchemaError(`expected 4 coordinates, got ${box.length}`, path);
+  }
+
+  return box.map((coordinate, index) =>
+    expectNumericString(coordinate, `${path}[${index}]`)
+  ) as RawNominatimPlace["boundingbox"];
+}
+
+function validateFeatureCollection(data: unknown): GeoJsonFeatureCollection {
+  const collection = expectObject(data, "$");
+  if (collection.type !== "FeatureCollection") {
+    throw new SchemaError(
+      `expected "FeatureCollection", got ${
+        typeof collection.type === "string"
+          ? `"${collection.type}"`
+          : describe(collection.type)
+      }`,
+      "type"
+    );
+  }
+
+  return {
+    type: "FeatureCollection",
+    features: expectArray(collection.features, "features").map(
+      (feature, index) => validateFeature(feature, `features[${index}]`)
+    ),
+  };
+}
+
+function validateFeature(value: unknown, path: string): GeoJsonFeature {
+  const feature = expectObject(value, path);
+  const { id } = feature;
+  if (id !== undefined && typeof id !== "string" && typeof id !== "number") {
+    throw new SchemaError(
+      `expected string or number, got ${describe(id)}`,
+      `${path}.id`
+    );
+  }
+
+  return {
+    type: "Feature",
+    id,
+    // Both members are required, but often omitted in hand-written files
+    properties:
+      optional(
+        feature.properties ?? undefined,
+        `${path}.properties`,
+        expectObject
+      ) ?? null,
+    geometry:
+      optional(
+        feature.geometry ?? undefined,
+        `${path}.geometry`,
+        validateGeometryObject
+      ) ?? null,
+  };
+}
+
+function validateGeometryObject(
+  value: unknown,
+  path: string
+): GeoJsonGeometry | null {
+  const geometry = expectObject(value, path);
+  const coordinates = `${path}.coordinates`;
+
+  switch (geometry.type) {
+    case "Polygon": {
+      return {
+        type: "Polygon",
+        coordinates: validatePolygon(geometry.coordinates, coordinates),
+      };
+    }
+
+    case "MultiPolygon": {
+      return {
+        type: "MultiPolygon",
+        coordinates: expectArray(geometry.coordinates, coordinates).map(
+          (polygon, index) =>
+            validatePolygon(polygon, `${coordinates}[${index}]`)
+        ),
+      };
+    }
+
+    default: {
+      expectString(geometry.type, `${path}.type`);
+      return null;
+    }
+  }
+}
+
+function validatePolygon(value: unknown, path: string): GeoJsonPosition[][] {
+  return expectArray(value, path).map((ring, ringIndex) => {
+    const positions = expectArray(ring, `${path}[${ringIndex}]`);
+    if (positions.length < 4) {
+      throw new SchemaError(
+        `expected at least 4 positions, got ${positions.length}`,
+        `${path}[${ringIndex}]`
+      );
+    }
+
+    return positions.map((position, index) => {
+      const positionPath = `${path}[${ringIndex}][${index}]`;
+      const numbers = expectArray(position, positionPath);
+      if (numbers.length < 2) {
+        throw new SchemaError(
+          `expected [longitude, latitude], got ${numbers.length} values`,
+          positionPath
+        );
+      }
+
+      return numbers.map((number, axis) =>
+        expectNumber(number, `${positionPath}[${axis}]`)
+      );
+    });
+  });
+}
+
+function validateResponse(data: unknown, lenient: boolean): RawGeocodeResponse {
+  const response = expectObject(data, "$");
+  const status = expectString(response.status, "status");
+
+  // Error responses may omit `results`
+  const rawResults =
+    response.results === undefined && status !== "OK"
+      ? []
+      : expectArray(response.results, "results");
+
+  const results: RawGeocodeResult[] = [];
+  for (const [index, result] of rawResults.entries()) {
+    try {
+      results.push(validateResult(result, `results[${index}]`));
+    } catch (error) {
+      if (!lenient || !(error instanceof SchemaError)) {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    status: status as RawGeocodeResponse["status"],
+    results,
+    plus_code: optional(response.plus_code, "plus_code", validatePlusCode),
+    error_message: optional(
+      response.error_message,
+      "error_message",
+      expectString
+    ),
+  };
+}
+
+function validateResult(value: unknown, path: string): RawGeocodeResult {
+  const result = expectObject(value, path);
+
+  return {
+    address_components: expectArray(
+      result.address_components,
+      `${path}.address_components`
+    ).map((component, index) =>
+      validateAddressComponent(
+        component,
+        `${path}.address_components[${index}]`
+      )
+    ),
+    formatted_address: expectString(
+      result.formatted_address,
+      `${path}.formatted_address`
+    ),
+    geometry: validateGeometry(result.geometry, `${path}.geometry`),
+    place_id: expectString(result.place_id, `${path}.place_id`),
+    plus_code: optional(
+      result.plus_code,
+      `${path}.plus_code`,
+      validatePlusCode
+    ),
+    postcode_localities: optional(
+      result.postcode_localities,
+      `${path}.postcode_localities`,
+      expectStringArray
+    ),
+    types: expectStringArray(result.types, `${path}.types`),
+    partial_match: optional(
+      result.partial_match,
+      `${path}.partial_match`,
+      expectBoolean
+    ),
+  };
+}
+
+function validateAddressComponent(
+  value: unknown,
+  path: string
+): RawAddressComponent {
+  const component = expectObject(value, path);
+
+  return {
+    long_name: expectString(component.long_name, `${path}.long_name`),
+    short_name: expectString(component.short_name, `${path}.short_name`),
+    types: expectStringArray(component.types, `${path}.types`),
+  };
+}
+
+function validateGeometry(value: unknown, path: string): RawGeometry {
+  const geometry = expectObject(value, path);
+
+  return {
+    location: validateLatLng(geometry.location, `${path}.location`),
+    location_type: expectString(
+      geometry.location_type,
+      `${path}.location_type`
+    ) as RawGeometry["location_type"],
+    viewport: validateBounds(geometry.viewport, `${path}.viewport`),
+    bounds: optional(geometry.bounds, `${path}.bounds`, validateBounds),
+  };
+}
+
+function validateBounds(value: unknown, path: string): RawGeometry["viewport"] {
+  const bounds = expectObject(value, path);
+
+  return {
+    northeast: validateLatLng(bounds.northeast, `${path}.northeast`),
+    southwest: validateLatLng(bounds.southwest, `${path}.southwest`),
+  };
+}
+
+function validateLatLng(value: unknown, path: string): LatLng {
+  const latlng = expectObject(value, path);
+
+  return {
+    lat: expectNumber(latlng.lat, `${path}.lat`),
+    lng: expectNumber(latlng.lng, `${path}.lng`),
+  };
+}
+
+function validatePlusCode(value: unknown, path: string): RawPlusCode {
+  const plusCode = expectObject(value, path);
+
+  return {
+    global_code: expectString(plusCode.global_code, `${path}.global_code`),
+    compound_code: optional(
+      plusCode.compound_code,
+      `${path}.compound_code`,
+      expectString
+    ),
+  };
+}
+
+function optional<T>(
+  value: unknown,
+  path: string,
+  validate: (value: unknown, path: string) => T
+): T | undefined {
+  return value === undefined ? undefined : validate(value, path);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaError(`expected object, got ${describe(value)}`, path);
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(`expected array, got ${describe(value)}`, path);
+  }
+
+  return value;
+}
+
+function expectStringArray(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((item, index) =>
+    expectString(item, `${path}[${index}]`)
+  );
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new SchemaError(`expected string, got ${describe(value)}`, path);
+  }
+
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaError(`expected number, got ${describe(value)}`, path);
+  }
+
+  return value;
+}
+
+function expectNumericString(value: unknown, path: string): string {
+  const text = expectString(value, path);
+  if (text.trim() === "" || !Number.isFinite(Number(text))) {
+    throw new SchemaError(`expected numeric string, got "${text}"`, path);
+  }
+
+  return text;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new SchemaError(`expected boolean, got ${describe(value)}`, path);
+  }
+
+  return value;
+}
+
+/**
+ * Describe the type of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+
+  return Array.isArray(value) ? "array" : typeof value;
+}
@@ -0,0 +1,292 @@
+import type { GeocoderConfig } from "./types.js";
+import {
+  GeocodingError,
+  NetworkError,
+  QuotaExceededError,
+  TimeoutError,
+  throwIfAborted,
+} from "./errors.js";
+import {
+  Cache,
+  isCacheStore,
+  type CacheOptions,
+  type CacheStore,
+} from "./cache.js";
+import { RateLimiter, type RateLimiterOptions } from "./rateLimiter.js";
+import { resolveAuth, type AuthStrategy } from "./auth.js";
+import type { KeyPoolOptions } from "./keyPool.js";
+import { sanitizeUrl } from "./hooks.js";
+import { parseRetryAfter } from "./retry.js";
+import { createTransport, type Transport } from "./transport.js";
+
+const DEFAULT_TIMEOUT = 10_000;
+
+/**
+ * Configuration options shared by the web service clients
+ */
+export type WebServiceClientConfig<T> = {
+  /** Cache configuration, a custom cache store, or false to disable */
+  cache?: CacheOptions | CacheStore<T> | false;
+  /** Rate limiter configuration or false to disable */
+  rateLimiter?: RateLimiterOptions | false;
+  /** Quarantine cooldowns for keys that run out of quota, when `apiKey` lists several keys */
+  keyPool?: KeyPoolOptions;
+} & Pick<
+  GeocoderConfig,
+  | "apiKey"
+  | "auth"
+  | "channel"
+  | "baseUrl"
+  | "timeout"
+  | "language"
+  | "fetch"
+  | "interceptors"
+>;
+
+/**
+ * A response received by a web service client
+ */
+export type WebServiceResponse = {
+  response: Response;
+  /** Response body text */
+  body: string;
+  /** Request URL with credentials redacted */
+  url: string;
+};
+
+/**
+ * Base class of the Google Maps web service clients other than `Geocoder`
+ *
+ * Handles authentication, caching, rate limiting, timeouts and
+ * cancellation, so subclasses only build requests and map responses.
+ */
+export abstract class WebServiceClient<T> {
+  protected readonly baseUrl: string;
+  protected readonly timeout: number;
+  protected readonly language: string | undefined;
+  private readonly channel: string | undefined;
+  private readonly auth: AuthStrategy;
+  private readonly cache: CacheStore<T> | null;
+  private readonly ownsCache: boolean;
+  private readonly rateLimiter: RateLimiter | null;
+  private readonly transport: Transport;
+
+  constructor(config: WebServiceClientConfig<T>, defaultBaseUrl: string) {
+    this.auth = resolveAuth(config, config.keyPool);
+    this.baseUrl = config.baseUrl ?? defaultBaseUrl;
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
+    this.language = config.language;
+    this.channel = config.channel;
+
+    // Initialize cache (enabled by default)
+    if (config.cache === false) {
+      this.cache = null;
+    } else if (config.cache && isCacheStore(config.cache)) {
+      this.cache = config.cache;
+    } else {
+      this.cache = new Cache<T>(config.cache);
+    }
+
+    this.ownsCache = this.cache instanceof Cache;
+
+    // Initialize rate limiter (enabled by default)
+    this.rateLimiter =
+      config.rateLimiter === false ? null : new RateLimiter(config.rateLimiter);
+
+    this.transport = createTransport(config.fetch, config.interceptors);
+  }
+
+  /**
+   * Clear the cache
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Clean up resources (clears the rate limiter queue and the built-in cache)
+   */
+  dispose(): void {
+    this.rateLimiter?.dispose();
+
+    if (this.ownsCache) {
+      this.cache?.clear();
+    }
+  }
+
+  /**
+   * Return the cached value for `cacheKey`, or load and cache it. Cache
+   * failures are treated as misses so they never fail a request.
+   */
+  protected async cached(
+    cacheKey: string,
+    signal: AbortSignal | undefined,
+    load: () => Promise<T>
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    const cached = await this.readCache(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = await load();
+    await this.writeCache(cacheKey, value);
+
+    return value;
+  }
+
+  /**
+   * Map a non-2xx response to a NetworkError, as the Geocoder does
+   */
+  protected toNetworkError(response: Response, url: string): NetworkError {
+    return new NetworkError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      undefined,
+      {
+        httpStatus: response.status,
+        url,
+        retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+      }
+    );
+  }
+
+  /**
+   * Send an authorized request and map the response, waiting for the rate
+   * limiter first. When the response reports an exceeded quota, the request
+   * is sent again with the next credentials of the auth strategy, until
+   * every credential was tried.
+   * @param parameters - Query parameters
+   * @param init - Method, headers and body
+   * @param signal - Caller's abort signal
+   * @param handle - Maps the response, throwing for failures
+   */
+  protected async send<R>(
+    parameters: URLSearchParams,
+    init: RequestInit,
+    signal: AbortSignal | undefined,
+    handle: (response: WebServiceResponse) => R
+  ): Promise<R> {
+    const baseUrl = new URL(this.baseUrl);
+    for (const [name, value] of parameters) {
+      baseUrl.searchParams.set(name, value);
+    }
+
+    if (this.channel) {
+      baseUrl.searchParams.set("channel", this.channel);
+    }
+
+    // Requests that ran out of quota, so every credential is tried at most once
+    const exhausted = new Set<string>();
+
+    const attempt = async (): Promise<R> => {
+      await this.rateLimiter?.acquire(signal);
+
+      // Authorize a fresh copy for every attempt, since credentials may change
+      const requestUrl = new URL(baseUrl);
+      this.auth.authorize(requestUrl);
+
+      try {
+        return await this.request(requestUrl, init, signal, handle);
+      } catch (error) {
+        if (
+          error instanceof QuotaExceededError &&
+          !exhausted.has(requestUrl.href) &&
+          this.auth.onQuotaExceeded?.(requestUrl, error.status)
+        ) {
+          exhausted.add(requestUrl.href);
+          return attempt();
+        }
+
+        throw error;
+      }
+    };
+
+    return attempt();
+  }
+
+  /**
+   * Send one request and map the response, aborting on timeout or when the
+   * caller's signal fires
+   */
+  private async request<R>(
+    requestUrl: URL,
+    init: RequestInit,
+    signal: AbortSignal | undefined,
+    handle: (response: WebServiceResponse) => R
+  ): Promise<R> {
+    const url = requestUrl.toString();
+    const sanitizedUrl = sanitizeUrl(url);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, this.timeout);
+    const onAbort = () => {
+      controller.abort();
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const response = await this.transport({
+        url,
+        init: {
+          ...init,
+          signal: controller.signal,
+          headers: { Accept: "application/json", ...init.headers },
+        },
+      });
+      const body = await response.text();
+
+      return handle({ response, body, url: sanitizedUrl });
+    } catch (error) {
+      if (error instanceof GeocodingError) {
+        error.url ??= sanitizedUrl;
+        throw error;
+      }
+
+      // Cancelled by the caller rather than by the timeout
+      throwIfAborted(signal);
+
+      if (error instanceof Error) {
+        if (error.name === "AbortError") {
+          throw new TimeoutError(this.timeout, error, { url: sanitizedUrl });
+        }
+
+        throw new NetworkError(`Request failed: ${error.message}`, error, {
+          url: sanitizedUrl,
+        });
+      }
+
+      throw new NetworkError("An unknown error occurred", undefined, {
+        url: sanitizedUrl,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Read from the cache, treating failures as misses
+   */
+  private async readCache(cacheKey: string): Promise<T | undefined> {
+    try {
+      return await this.cache?.get(cacheKey);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write to the cache, skipping the write on failure
+   */
+  private async writeCache(cacheKey: string, value: T): Promise<void> {
+    try {
+      await this.cache?.set(cacheKey, value);
+    } catch {
+      // The value is still returned, just not cached
+    }
+  }
+}